@@ -7,6 +7,7 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Diagnostic from "./pages/Diagnostic";
 import Dashboard from "./pages/Dashboard";
+import StudentDetail from "./pages/StudentDetail";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,7 +22,9 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
           <Route path="/diagnostic" element={<Diagnostic />} />
+          <Route path="/diagnostic/:testId" element={<Diagnostic />} />
           <Route path="/dashboard" element={<Dashboard />} />
+          <Route path="/students/:id" element={<StudentDetail />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CONSTRUCTS } from "@shared/constructs";
+import { ROADMAP_SEVERITIES } from "@shared/roadmap";
+import { Clock, Users } from "lucide-react";
+
+interface HeatmapBlocker {
+  blocker_name: string;
+  blocker_type: string;
+  confidence: number | null;
+  is_confirmed: boolean | null;
+}
+
+interface HeatmapTest {
+  status: string;
+  overall_severity: string | null;
+  blockers: HeatmapBlocker[];
+  construct_accuracy: Record<string, number> | null;
+}
+
+export interface HeatmapStudent {
+  id: string;
+  name: string;
+  // Newest first, as the Dashboard loads them
+  tests: HeatmapTest[];
+}
+
+type ColorBy = "accuracy" | "confidence";
+
+interface HeatmapRow {
+  student: HeatmapStudent;
+  test: HeatmapTest | null;
+  severity: string | null;
+  // Blockers still standing after the confirmatory phase
+  blockers: HeatmapBlocker[];
+}
+
+// Severe first; students without a completed test last
+function severityRank(severity: string | null): number {
+  const index = ROADMAP_SEVERITIES.indexOf(severity as (typeof ROADMAP_SEVERITIES)[number]);
+  return index === -1 ? -1 : index;
+}
+
+// Red at 0% through amber to green at 100%
+function accuracyColor(accuracy: number): string {
+  return `hsl(${Math.round(accuracy * 1.45)} 65% 50% / 0.85)`;
+}
+
+function confidenceColor(confidence: number): string {
+  return `hsl(var(--destructive) / ${Math.max(confidence, 0.08).toFixed(2)})`;
+}
+
+interface ClassHeatmapProps {
+  students: HeatmapStudent[];
+}
+
+// Students against constructs on their latest completed test, colored by
+// accuracy or blocker confidence, optionally grouped by shared blocker to
+// plan small-group instruction
+export function ClassHeatmap({ students }: ClassHeatmapProps) {
+  const [colorBy, setColorBy] = useState<ColorBy>("accuracy");
+  const [sortBy, setSortBy] = useState("severity");
+  const [grouped, setGrouped] = useState(false);
+
+  const rows = useMemo(() => {
+    const all: HeatmapRow[] = students.map((student) => {
+      const test = student.tests.find((t) => t.status === "completed") ?? null;
+      return {
+        student,
+        test,
+        severity: test?.overall_severity ?? null,
+        blockers: (test?.blockers ?? []).filter((b) => b.is_confirmed !== false),
+      };
+    });
+    return all.sort((a, b) =>
+      sortBy === "severity"
+        ? severityRank(b.severity) - severityRank(a.severity) || b.blockers.length - a.blockers.length || a.student.name.localeCompare(b.student.name)
+        : a.student.name.localeCompare(b.student.name)
+    );
+  }, [students, sortBy]);
+
+  // A student with several blockers appears in each of their groups
+  const groups = useMemo(() => {
+    if (!grouped) return [{ title: null as string | null, rows }];
+    const byBlocker = new Map<string, HeatmapRow[]>();
+    for (const row of rows) {
+      for (const name of new Set(row.blockers.map((b) => b.blocker_name))) {
+        byBlocker.set(name, [...(byBlocker.get(name) ?? []), row]);
+      }
+    }
+    const withoutBlockers = rows.filter((r) => r.test && r.blockers.length === 0);
+    return [
+      ...[...byBlocker.entries()]
+        .sort(([, a], [, b]) => b.length - a.length)
+        .map(([name, members]) => ({ title: name, rows: members })),
+      ...(withoutBlockers.length > 0 ? [{ title: "No blockers", rows: withoutBlockers }] : []),
+    ];
+  }, [rows, grouped]);
+
+  const renderCell = (row: HeatmapRow, construct: string) => {
+    const blockers = row.blockers.filter((b) => b.blocker_name === construct);
+    const accuracyBlocker = blockers.find((b) => b.blocker_type === "accuracy");
+    const isSlow = blockers.some((b) => b.blocker_type === "fluency");
+    const accuracy = row.test?.construct_accuracy?.[construct];
+
+    let background: string | undefined;
+    let label = "–";
+    if (colorBy === "accuracy" && accuracy !== undefined) {
+      background = accuracyColor(accuracy);
+      label = `${accuracy}%`;
+    } else if (colorBy === "confidence" && row.test) {
+      const confidence = accuracyBlocker?.confidence ?? (accuracyBlocker ? 1 : 0);
+      background = confidenceColor(confidence);
+      label = accuracyBlocker ? `${Math.round(confidence * 100)}%` : "";
+    }
+
+    const title = [
+      `${row.student.name} · ${construct}`,
+      accuracy !== undefined ? `${accuracy}% correct` : null,
+      accuracyBlocker ? `Blocker${accuracyBlocker.confidence !== null ? ` (${Math.round(accuracyBlocker.confidence * 100)}% confidence)` : ""}` : null,
+      isSlow ? "Slow retrieval" : null,
+    ].filter(Boolean).join(" · ");
+
+    return (
+      <TableCell key={construct} className="p-1">
+        <Link
+          to={`/students/${row.student.id}`}
+          title={title}
+          className="flex h-9 items-center justify-center gap-1 rounded text-xs font-medium hover:ring-2 hover:ring-ring"
+          style={{ background }}
+        >
+          {label}
+          {isSlow && <Clock className="w-3 h-3" aria-label="Slow retrieval" />}
+        </Link>
+      </TableCell>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={colorBy} onValueChange={(value) => setColorBy(value as ColorBy)}>
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="accuracy">Color by accuracy</SelectItem>
+            <SelectItem value="confidence">Color by blocker confidence</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={sortBy} onValueChange={setSortBy}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="severity">Most severe first</SelectItem>
+            <SelectItem value="name">By name</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant={grouped ? "default" : "outline"} size="sm" onClick={() => setGrouped(!grouped)}>
+          <Users className="w-4 h-4 mr-2" />
+          Group by shared blocker
+        </Button>
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.title ?? "all"} className="space-y-2">
+          {group.title && (
+            <h3 className="font-semibold">
+              {group.title}
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                {group.rows.length} {group.rows.length === 1 ? "student" : "students"}
+              </span>
+            </h3>
+          )}
+          <div className="overflow-x-auto rounded-md border border-border bg-card">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-40">Student</TableHead>
+                  <TableHead>Severity</TableHead>
+                  {CONSTRUCTS.map((construct) => (
+                    <TableHead key={construct} className="min-w-24 text-center">{construct}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {group.rows.map((row) => (
+                  <TableRow key={row.student.id}>
+                    <TableCell>
+                      <Link to={`/students/${row.student.id}`} className="font-medium hover:text-primary hover:underline underline-offset-4">
+                        {row.student.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {row.severity ? (
+                        <Badge variant={row.severity === "severe" ? "destructive" : row.severity === "moderate" ? "default" : "secondary"}>
+                          {row.severity}
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">{row.test ? "–" : "No completed test"}</span>
+                      )}
+                    </TableCell>
+                    {CONSTRUCTS.map((construct) => renderCell(row, construct))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      ))}
+
+      {grouped && groups.length === 0 && (
+        <p className="text-sm text-muted-foreground">No completed tests to group yet.</p>
+      )}
+    </div>
+  );
+}
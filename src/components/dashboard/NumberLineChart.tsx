@@ -0,0 +1,55 @@
+import { CartesianGrid, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { NumberLineEstimation } from "@shared/number-line";
+
+const chartConfig = {
+  placement: { label: "Placement", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface NumberLineChartProps {
+  estimation: NumberLineEstimation;
+}
+
+// Placements as a share of each line's length, against the perfectly
+// linear placement on the diagonal
+export function NumberLineChart({ estimation }: NumberLineChartProps) {
+  const data = estimation.placements.map((p) => ({
+    target: (p.target / p.max) * 100,
+    estimate: (p.estimate / p.max) * 100,
+    label: `${p.target} on 0–${p.max}: placed at ${p.estimate}`,
+  }));
+
+  const fitSummary = estimation.bestFit && estimation.linear && estimation.logarithmic
+    ? `Best fit: ${estimation.bestFit} (R² linear ${estimation.linear.r2.toFixed(2)}, log ${estimation.logarithmic.r2.toFixed(2)})`
+    : "Not enough placements to compare models";
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">Number Line Estimation:</span>
+        {estimation.pae !== null && (
+          <span className="font-medium">PAE {estimation.pae.toFixed(1)}%</span>
+        )}
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-[4/3] w-full">
+        <ScatterChart margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" dataKey="target" name="Target" domain={[0, 100]} unit="%" tickCount={5} />
+          <YAxis type="number" dataKey="estimate" name="Placed" domain={[0, 100]} unit="%" tickCount={5} />
+          <ZAxis range={[40, 40]} />
+          <ReferenceLine
+            segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]}
+            stroke="hsl(var(--muted-foreground))"
+            strokeDasharray="4 4"
+          />
+          <ChartTooltip
+            cursor={false}
+            content={<ChartTooltipContent hideIndicator labelKey="label" nameKey="placement" />}
+          />
+          <Scatter name="placement" data={data} fill="var(--color-placement)" />
+        </ScatterChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground">{fitSummary}</p>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileSearch } from "lucide-react";
+
+// Pool records carry the raw output of each item of the test they served in
+// place of the output of the whole batch
+type ProvenanceRecord = Tables<"generation_provenance"> & {
+  item_outputs?: { question_number: number; raw_output: string }[];
+};
+
+const KIND_LABELS: Record<string, string> = {
+  "question": "Questions",
+  "confirmatory-test": "Confirmatory questions",
+  "roadmap": "Roadmap",
+  "pool": "Item pool",
+};
+
+interface ProvenanceDialogProps {
+  studentName: string;
+  tests: { id: string; created_at: string; status: string | null }[];
+}
+
+// Question ranges as "1–5, 8"
+function formatNumbers(numbers: number[]): string {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}–${sorted[i]}`);
+  }
+  return ranges.join(", ");
+}
+
+// What produced each item and the roadmap of a test: model, prompt version,
+// function version, input hash and the raw model output. Items drawn from the
+// item pool show the record of the batch that generated them, found through
+// the test's answers, with only the part of the batch's raw output that each
+// item came from, as the rest holds the keys of items other tests are still
+// given. Records hold answer keys, so they are shown only once the test is
+// completed.
+export function ProvenanceDialog({ studentName, tests }: ProvenanceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [testId, setTestId] = useState(tests[0]?.id);
+  const [records, setRecords] = useState<ProvenanceRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isCompleted = tests.find((test) => test.id === testId)?.status === "completed";
+
+  useEffect(() => {
+    if (!open || !testId || !isCompleted) return;
+
+    let cancelled = false;
+    setRecords(null);
+    setError(null);
+    const load = async () => {
+      const { data: responses, error: responsesError } = await supabase
+        .from("test_responses")
+        .select("question_number, provenance_id")
+        .eq("test_id", testId);
+      if (responsesError) throw responsesError;
+
+      const { data: testRecords, error } = await supabase
+        .from("generation_provenance")
+        .select("*")
+        .eq("test_id", testId);
+      if (error) throw error;
+
+      const poolIds = [...new Set(responses.map((r) => r.provenance_id).filter((id): id is string => !!id))];
+      const { data: poolRecords, error: poolError } = poolIds.length > 0
+        ? await supabase.from("pooled_item_provenance").select("*").in("id", poolIds)
+        : { data: [], error: null };
+      if (poolError) throw poolError;
+
+      const { data: itemOutputs, error: outputsError } = poolIds.length > 0
+        ? await supabase.from("pooled_item_outputs").select("*").eq("test_id", testId)
+        : { data: [], error: null };
+      if (outputsError) throw outputsError;
+
+      // Pool records cover no test; show the questions of this test they served
+      const pooled = poolRecords.map((record) => ({
+        ...(record as Omit<ProvenanceRecord, "test_id" | "question_numbers" | "raw_outputs">),
+        test_id: null,
+        question_numbers: responses.filter((r) => r.provenance_id === record.id).map((r) => r.question_number),
+        raw_outputs: [],
+        item_outputs: itemOutputs
+          .filter((output) => output.provenance_id === record.id)
+          .map((output) => ({ question_number: output.question_number, raw_output: output.raw_output }))
+          .sort((a, b) => a.question_number - b.question_number),
+      }));
+      return [...testRecords, ...pooled].sort((a, b) => (a.created_at ?? "").localeCompare(b.created_at ?? ""));
+    };
+
+    load()
+      .then((data) => !cancelled && setRecords(data))
+      .catch((error) => !cancelled && setError(error.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, testId, isCompleted]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full">
+          <FileSearch className="w-4 h-4 mr-2" />
+          Generation Details
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Generation Details: {studentName}</DialogTitle>
+          <DialogDescription>
+            The model, prompt and raw output behind each item and roadmap of a test
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={testId} onValueChange={setTestId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a test" />
+          </SelectTrigger>
+          <SelectContent>
+            {tests.map((test) => (
+              <SelectItem key={test.id} value={test.id}>
+                Test of {new Date(test.created_at).toLocaleString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="max-h-[60vh] overflow-y-auto pr-3">
+          {!isCompleted ? (
+            <p className="text-sm text-muted-foreground">Generation details are available once the test is completed.</p>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : records === null ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : records.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing was recorded for this test.</p>
+          ) : (
+            <div className="space-y-4">
+              {records.map((record) => (
+                <div key={record.id} className="rounded border border-border p-3 space-y-2 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{KIND_LABELS[record.kind] ?? record.kind}</span>
+                    {record.question_numbers.length > 0 && (
+                      <span className="text-muted-foreground">Q{formatNumbers(record.question_numbers)}</span>
+                    )}
+                    <Badge variant={record.source === "model" ? "default" : "secondary"}>
+                      {record.source === "model" ? "Model" : "Local generator"}
+                    </Badge>
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {record.created_at && new Date(record.created_at).toLocaleString()}
+                    </span>
+                  </div>
+
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                    {record.source === "model" && (
+                      <>
+                        <dt className="text-muted-foreground">Model</dt>
+                        <dd>{record.provider} / {record.model}</dd>
+                        <dt className="text-muted-foreground">Temperature</dt>
+                        <dd>{record.temperature ?? "default"}</dd>
+                        <dt className="text-muted-foreground">Prompt</dt>
+                        <dd>{record.prompt_name} v{record.prompt_version}</dd>
+                      </>
+                    )}
+                    <dt className="text-muted-foreground">Function</dt>
+                    <dd>{record.function_name} v{record.function_version}</dd>
+                    <dt className="text-muted-foreground">Input hash</dt>
+                    <dd className="font-mono" title={record.input_hash}>{record.input_hash.slice(0, 16)}</dd>
+                  </dl>
+
+                  <details>
+                    <summary className="cursor-pointer text-xs text-muted-foreground">Input</summary>
+                    <pre className="mt-1 max-h-48 overflow-auto rounded bg-muted/30 p-2 text-xs whitespace-pre-wrap">
+                      {JSON.stringify(record.input, null, 2)}
+                    </pre>
+                  </details>
+                  {record.item_outputs?.map((output) => (
+                    <details key={output.question_number}>
+                      <summary className="cursor-pointer text-xs text-muted-foreground">
+                        Raw output (Q{output.question_number})
+                      </summary>
+                      <pre className="mt-1 max-h-64 overflow-auto rounded bg-muted/30 p-2 text-xs whitespace-pre-wrap">
+                        {output.raw_output}
+                      </pre>
+                    </details>
+                  ))}
+                  {record.item_outputs && record.item_outputs.length < record.question_numbers.length && (
+                    <p className="text-xs text-muted-foreground">
+                      No raw output was kept for Q{formatNumbers(record.question_numbers.filter(
+                        (n) => !record.item_outputs.some((output) => output.question_number === n)
+                      ))}, as the item was pooled before each item's output was kept.
+                    </p>
+                  )}
+                  {Array.isArray(record.raw_outputs) && record.raw_outputs.map((raw, i, outputs) => (
+                    <details key={i}>
+                      <summary className="cursor-pointer text-xs text-muted-foreground">
+                        Raw output{outputs.length > 1 ? ` (round ${i + 1})` : ""}
+                      </summary>
+                      <pre className="mt-1 max-h-64 overflow-auto rounded bg-muted/30 p-2 text-xs whitespace-pre-wrap">
+                        {String(raw)}
+                      </pre>
+                    </details>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
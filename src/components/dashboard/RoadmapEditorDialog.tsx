@@ -0,0 +1,437 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Pencil, Sparkles, X } from "lucide-react";
+import { callFunction, functionError, readEvents } from "@/lib/functions";
+import { parseRoadmapStep, validateRoadmap, type Roadmap, type RoadmapResource, type RoadmapStep } from "@shared/roadmap";
+import { describeChange, diffRoadmaps, type RoadmapChange } from "@shared/roadmap-diff";
+
+interface CurrentRoadmap {
+  id: string;
+  version: number;
+  roadmap: Roadmap;
+}
+
+interface Revision {
+  id: string;
+  version: number;
+  source: string;
+  feedback: string | null;
+  diff: RoadmapChange[];
+  createdAt: string | null;
+  author: string;
+}
+
+interface CatalogEntry {
+  id: string;
+  name: string;
+  kind: string;
+  cost: string;
+  url: string | null;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  generated: "Generated",
+  edit: "Edited",
+  feedback: "Rewritten from feedback",
+};
+
+// Resources from before the catalog have no id
+const resourceKey = (resource: RoadmapResource) => resource.resourceId ?? resource.name;
+
+interface RoadmapEditorDialogProps {
+  studentName: string;
+  testId: string;
+  // Called after a revision is saved
+  onSaved?: () => void;
+}
+
+// Lets the teacher revise a test's roadmap: edit a step directly, which
+// edit-roadmap saves, or choose steps and describe what should change for
+// generate-roadmap to rewrite them.
+// Every revision is saved as a new version; the history lists who made each
+// one and what changed.
+export function RoadmapEditorDialog({ studentName, testId, onSaved }: RoadmapEditorDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [current, setCurrent] = useState<CurrentRoadmap | null>(null);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [catalog, setCatalog] = useState<CatalogEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [draft, setDraft] = useState<RoadmapStep | null>(null);
+  const [chosen, setChosen] = useState<number[]>([]);
+  const [feedback, setFeedback] = useState("");
+  const [saving, setSaving] = useState(false);
+  // Steps already rewritten while the revision streams in
+  const [rewritten, setRewritten] = useState<RoadmapStep[]>([]);
+
+  const load = useCallback(async () => {
+    const { data: row, error: roadmapError } = await supabase
+      .from("remediation_roadmaps")
+      .select("id, version, roadmap_data, diagnostic_tests(age_at_test)")
+      .eq("test_id", testId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (roadmapError) throw roadmapError;
+    if (!row) throw new Error("This test has no roadmap yet.");
+
+    const validation = validateRoadmap(row.roadmap_data);
+    if (!validation.valid) throw new Error(`This roadmap cannot be edited: ${validation.reason}`);
+    const age = row.diagnostic_tests?.age_at_test ?? 0;
+
+    const [{ data: history, error: historyError }, { data: resources, error: resourcesError }] = await Promise.all([
+      supabase
+        .from("roadmap_revisions")
+        .select("id, version, source, feedback, diff, created_at, profiles(full_name, email)")
+        .eq("roadmap_id", row.id)
+        .order("version", { ascending: false }),
+      supabase
+        .from("resources")
+        .select("id, name, kind, cost, url")
+        .lte("min_age", age)
+        .gte("max_age", age)
+        .order("name", { ascending: true }),
+    ]);
+    if (historyError) throw historyError;
+    if (resourcesError) throw resourcesError;
+
+    setCurrent({ id: row.id, version: row.version, roadmap: validation.roadmap });
+    setRevisions(history.map((r) => ({
+      id: r.id,
+      version: r.version,
+      source: r.source,
+      feedback: r.feedback,
+      diff: (r.diff ?? []) as unknown as RoadmapChange[],
+      createdAt: r.created_at,
+      author: r.profiles?.full_name || r.profiles?.email || "Another teacher",
+    })));
+    setCatalog(resources);
+  }, [testId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setError(null);
+    setCurrent(null);
+    load().catch((error) => !cancelled && setError(error.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, load]);
+
+  // Reloads after a save or a conflict, keeping any error on screen
+  const reload = async () => {
+    try {
+      await load();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to reload the roadmap");
+    }
+  };
+
+  const saveDraft = async () => {
+    if (!current || !draft) return;
+
+    const revised = {
+      ...current.roadmap,
+      steps: current.roadmap.steps.map((s) => (s.stepNumber === draft.stepNumber ? draft : s)),
+    };
+    if (diffRoadmaps(current.roadmap, revised).length === 0) {
+      setDraft(null);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await callFunction("edit-roadmap", {
+        testId,
+        roadmapId: current.id,
+        baseVersion: current.version,
+        step: draft,
+      });
+      if (!response.ok) throw await functionError(response, "edit-roadmap");
+
+      setDraft(null);
+      onSaved?.();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save the step");
+    } finally {
+      setSaving(false);
+      await reload();
+    }
+  };
+
+  const rewriteChosen = async () => {
+    if (!current || chosen.length === 0 || !feedback.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    setRewritten([]);
+    try {
+      const response = await callFunction("generate-roadmap", {
+        testId,
+        revise: {
+          roadmapId: current.id,
+          baseVersion: current.version,
+          stepNumbers: [...chosen].sort((a, b) => a - b),
+          feedback: feedback.trim(),
+        },
+      });
+      if (!response.ok) throw await functionError(response, "generate-roadmap");
+
+      let done = false;
+      for await (const { event, data } of readEvents(response)) {
+        if (event === "step") {
+          const step = parseRoadmapStep(data);
+          if (!step) continue;
+          setRewritten((steps) => [...steps.filter((s) => s.stepNumber !== step.stepNumber), step]);
+        } else if (event === "done") {
+          done = true;
+        } else if (event === "error") {
+          throw new Error((data as { error: string }).error);
+        }
+      }
+      if (!done) throw new Error("The connection dropped before the steps were saved. Try again.");
+
+      setChosen([]);
+      setFeedback("");
+      onSaved?.();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to rewrite the steps");
+    } finally {
+      setSaving(false);
+      setRewritten([]);
+      await reload();
+    }
+  };
+
+  const toggleChosen = (stepNumber: number, checked: boolean) => {
+    setChosen((steps) => (checked ? [...steps, stepNumber] : steps.filter((n) => n !== stepNumber)));
+  };
+
+  const addResource = (resourceId: string) => {
+    const entry = catalog.find((r) => r.id === resourceId);
+    if (!draft || !entry || draft.resources.some((r) => r.resourceId === resourceId)) return;
+    setDraft({
+      ...draft,
+      resources: [...draft.resources, { resourceId: entry.id, name: entry.name, kind: entry.kind, cost: entry.cost, url: entry.url, use: "" }],
+    });
+  };
+
+  const renderStep = (step: RoadmapStep) => {
+    const streamed = rewritten.find((s) => s.stepNumber === step.stepNumber);
+    const shown = streamed ?? step;
+    const pending = saving && chosen.includes(step.stepNumber) && !streamed;
+
+    if (draft?.stepNumber === step.stepNumber) {
+      return (
+        <div key={step.stepNumber} className="rounded border border-primary p-3 space-y-3 text-sm">
+          <p className="font-semibold">Step {step.stepNumber}</p>
+          <Input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} />
+          <Textarea
+            rows={5}
+            value={draft.executionPlan}
+            onChange={(e) => setDraft({ ...draft, executionPlan: e.target.value })}
+          />
+          <div className="space-y-2">
+            {draft.resources.map((resource) => (
+              <div key={resourceKey(resource)} className="flex items-center gap-2">
+                <span className="font-medium whitespace-nowrap">{resource.name}</span>
+                <Input
+                  className="h-8"
+                  placeholder="How this step uses it"
+                  value={resource.use}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    resources: draft.resources.map((r) => (resourceKey(r) === resourceKey(resource) ? { ...r, use: e.target.value } : r)),
+                  })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Remove ${resource.name}`}
+                  onClick={() => setDraft({ ...draft, resources: draft.resources.filter((r) => resourceKey(r) !== resourceKey(resource)) })}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Select value="" onValueChange={addResource}>
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Add a resource from the catalog" />
+              </SelectTrigger>
+              <SelectContent>
+                {catalog
+                  .filter((entry) => !draft.resources.some((r) => r.resourceId === entry.id))
+                  .map((entry) => (
+                    <SelectItem key={entry.id} value={entry.id}>
+                      {entry.name} ({entry.kind}, {entry.cost})
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={saveDraft} disabled={saving || !draft.title.trim() || !draft.executionPlan.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Step
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={step.stepNumber} className="rounded border border-border p-3 space-y-2 text-sm">
+        <div className="flex items-start gap-2">
+          <Checkbox
+            className="mt-0.5"
+            checked={chosen.includes(step.stepNumber)}
+            onCheckedChange={(checked) => toggleChosen(step.stepNumber, checked === true)}
+            disabled={saving || draft !== null}
+            aria-label={`Rewrite step ${step.stepNumber}`}
+          />
+          <p className="font-semibold flex-1">
+            Step {shown.stepNumber}: {shown.title}
+          </p>
+          {pending ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDraft(step)}
+              disabled={saving || draft !== null}
+              aria-label={`Edit step ${step.stepNumber}`}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-muted-foreground whitespace-pre-wrap">{shown.executionPlan}</p>
+        {shown.resources.length > 0 && (
+          <ul className="list-disc list-inside text-xs space-y-0.5">
+            {shown.resources.map((resource) => (
+              <li key={resourceKey(resource)}>
+                <span className="font-medium">{resource.name}</span>
+                {resource.use && <span className="text-muted-foreground">: {resource.use}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <Pencil className="w-4 h-4 mr-2" />
+          Revise Roadmap
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Roadmap: {studentName}</DialogTitle>
+          <DialogDescription>
+            Edit a step directly, or tick steps and describe what should change to have them rewritten
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {current === null ? (
+          !error && <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <Tabs defaultValue="steps">
+            <TabsList>
+              <TabsTrigger value="steps">Steps (version {current.version})</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="steps" className="space-y-3">
+              <div className="max-h-[50vh] overflow-y-auto pr-3 space-y-3">
+                {current.roadmap.steps.map(renderStep)}
+              </div>
+
+              <div className="space-y-2 border-t border-border pt-3">
+                <Textarea
+                  rows={2}
+                  placeholder='e.g. "Use physical manipulatives only; there is no tablet at home"'
+                  value={feedback}
+                  onChange={(e) => setFeedback(e.target.value)}
+                  disabled={saving || draft !== null}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    {chosen.length === 0
+                      ? "Tick the steps to rewrite"
+                      : `Rewrites step${chosen.length > 1 ? "s" : ""} ${[...chosen].sort((a, b) => a - b).join(", ")}`}
+                  </p>
+                  <Button
+                    size="sm"
+                    onClick={rewriteChosen}
+                    disabled={saving || draft !== null || chosen.length === 0 || !feedback.trim()}
+                  >
+                    {saving && draft === null ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                    Rewrite Steps
+                  </Button>
+                </div>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="history">
+              <div className="max-h-[60vh] overflow-y-auto pr-3 space-y-3">
+                {revisions.map((revision) => (
+                  <div key={revision.id} className="rounded border border-border p-3 space-y-2 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold">Version {revision.version}</span>
+                      <Badge variant={revision.source === "generated" ? "secondary" : "default"}>
+                        {SOURCE_LABELS[revision.source] ?? revision.source}
+                      </Badge>
+                      <span className="text-muted-foreground">by {revision.author}</span>
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {revision.createdAt && new Date(revision.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    {revision.feedback && (
+                      <p className="text-xs italic text-muted-foreground">"{revision.feedback}"</p>
+                    )}
+                    {revision.diff.length > 0 && (
+                      <ul className="list-disc list-inside text-xs space-y-0.5">
+                        {revision.diff.map((change, i) => (
+                          <li key={i}>{describeChange(change)}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { MAX_DOTS, type PublicItem } from "@shared/items";
+import { hashSeed, seededRandom, shuffle } from "@shared/random";
+
+interface DotComparisonInputProps {
+  question: PublicItem<"dot-comparison">;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+interface Dot {
+  x: number;
+  y: number;
+  r: number;
+}
+
+const GRID = Math.ceil(Math.sqrt(MAX_DOTS));
+
+// Dots sit in random cells of a grid with jittered positions and sizes, so
+// neither a regular pattern nor the area covered gives the answer away. The
+// layout is seeded so a set looks the same across re-renders and resumes.
+function layoutDots(count: number, seed: number): Dot[] {
+  const random = seededRandom(seed);
+  const cells = shuffle(random, Array.from({ length: GRID * GRID }, (_, i) => i));
+
+  const cellSize = 100 / GRID;
+  return cells.slice(0, Math.min(count, cells.length)).map((cell) => ({
+    x: (cell % GRID) * cellSize + cellSize * (0.3 + random() * 0.4),
+    y: Math.floor(cell / GRID) * cellSize + cellSize * (0.3 + random() * 0.4),
+    r: cellSize * (0.18 + random() * 0.14),
+  }));
+}
+
+export function DotComparisonInput({ question, value, onChange }: DotComparisonInputProps) {
+  const sides = useMemo(
+    () => [
+      { side: "left", dots: layoutDots(question.leftCount, hashSeed("left", question.leftCount, question.rightCount)) },
+      { side: "right", dots: layoutDots(question.rightCount, hashSeed("right", question.leftCount, question.rightCount)) },
+    ],
+    [question.leftCount, question.rightCount]
+  );
+
+  return (
+    <div role="radiogroup" aria-label={`Tap the box with ${question.ask} dots`} className="grid grid-cols-2 gap-4">
+      {sides.map(({ side, dots }) => (
+        <button
+          key={side}
+          type="button"
+          role="radio"
+          aria-checked={value === side}
+          aria-label={`${side} box`}
+          onClick={() => onChange(side)}
+          className={cn(
+            "aspect-square rounded-lg border-2 bg-card p-2 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+            value === side ? "border-primary bg-primary/10" : "border-border hover:border-primary/50"
+          )}
+        >
+          <svg viewBox="0 0 100 100" className="h-full w-full">
+            {dots.map((dot, i) => (
+              <circle key={i} cx={dot.x} cy={dot.y} r={dot.r} className="fill-foreground" />
+            ))}
+          </svg>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { PublicQuestion } from "@shared/items";
+import { DotComparisonInput } from "@/components/diagnostic/DotComparisonInput";
+import { MultipleChoiceInput } from "@/components/diagnostic/MultipleChoiceInput";
+import { NumberLineInput } from "@/components/diagnostic/NumberLineInput";
+import { OrderingInput } from "@/components/diagnostic/OrderingInput";
+
+interface ItemInputProps {
+  question: PublicQuestion;
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+}
+
+// Renders the answer control for an item's type
+export function ItemInput({ question, value, onChange, onSubmit }: ItemInputProps) {
+  switch (question.itemType) {
+    case "multiple-choice":
+      return <MultipleChoiceInput question={question} value={value} onChange={onChange} />;
+    case "number-line":
+      return <NumberLineInput question={question} value={value} onChange={onChange} />;
+    case "dot-comparison":
+      return <DotComparisonInput question={question} value={value} onChange={onChange} />;
+    case "ordering":
+      return <OrderingInput question={question} value={value} onChange={onChange} />;
+    default:
+      return (
+        <div className="space-y-2">
+          <Label htmlFor="answer">Your Answer</Label>
+          <Input
+            id="answer"
+            type="text"
+            placeholder="Type your answer here"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyPress={(e) => e.key === "Enter" && onSubmit()}
+            autoFocus
+          />
+        </div>
+      );
+  }
+}
@@ -0,0 +1,29 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { PublicItem } from "@shared/items";
+
+interface MultipleChoiceInputProps {
+  question: PublicItem<"multiple-choice">;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function MultipleChoiceInput({ question, value, onChange }: MultipleChoiceInputProps) {
+  return (
+    <div role="radiogroup" aria-label="Answer options" className="grid grid-cols-2 gap-3">
+      {question.options.map((option) => (
+        <Button
+          key={option}
+          type="button"
+          role="radio"
+          aria-checked={value === option}
+          variant={value === option ? "default" : "outline"}
+          className={cn("h-auto min-h-14 whitespace-normal text-lg", value === option && "ring-2 ring-primary ring-offset-2")}
+          onClick={() => onChange(option)}
+        >
+          {option}
+        </Button>
+      ))}
+    </div>
+  );
+}
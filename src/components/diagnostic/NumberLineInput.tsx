@@ -0,0 +1,98 @@
+import { useRef, useState, type KeyboardEvent, type PointerEvent } from "react";
+import type { PublicItem } from "@shared/items";
+
+interface NumberLineInputProps {
+  question: PublicItem<"number-line">;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Placements snap to whole numbers on lines of 0-100 and wider, tenths below
+function snap(value: number, range: number): number {
+  return range >= 100 ? Math.round(value) : Math.round(value * 10) / 10;
+}
+
+// Only the end points are labelled; the child places the marker by
+// estimating, so the placed value is never shown back to them. The answer is
+// committed when the marker is released, not on every move.
+export function NumberLineInput({ question, value, onChange }: NumberLineInputProps) {
+  const { min, max } = question;
+  const range = max - min;
+  const lineRef = useRef<HTMLDivElement>(null);
+  const [dragValue, setDragValue] = useState<number | null>(null);
+
+  const committed = value === "" ? null : Number(value);
+  const shown = dragValue ?? committed;
+
+  const valueAt = (clientX: number) => {
+    const rect = lineRef.current!.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return snap(min + fraction * range, range);
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragValue(valueAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragValue !== null) setDragValue(valueAt(e.clientX));
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragValue === null) return;
+    const placed = valueAt(e.clientX);
+    setDragValue(null);
+    onChange(String(placed));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const step = range >= 100 ? range / 100 : 0.1;
+    const current = committed ?? min + range / 2;
+    if (e.key === "ArrowLeft" || e.key === "ArrowDown") {
+      e.preventDefault();
+      onChange(String(snap(Math.max(min, current - step), range)));
+    } else if (e.key === "ArrowRight" || e.key === "ArrowUp") {
+      e.preventDefault();
+      onChange(String(snap(Math.min(max, current + step), range)));
+    }
+  };
+
+  return (
+    <div className="px-4 py-8 select-none">
+      <div
+        ref={lineRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={`Number line from ${min} to ${max}`}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={committed ?? undefined}
+        className="relative h-16 cursor-pointer touch-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded-md"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="absolute left-0 right-0 top-1/2 h-1 -translate-y-1/2 bg-foreground rounded" />
+        <div className="absolute left-0 top-1/2 h-6 w-1 -translate-y-1/2 bg-foreground" />
+        <div className="absolute right-0 top-1/2 h-6 w-1 -translate-y-1/2 bg-foreground" />
+        {shown !== null && (
+          <div
+            className="absolute top-0 h-full w-1 -translate-x-1/2 bg-primary"
+            style={{ left: `${((shown - min) / range) * 100}%` }}
+          >
+            <div className="absolute -top-2 left-1/2 h-5 w-5 -translate-x-1/2 rounded-full bg-primary shadow" />
+          </div>
+        )}
+      </div>
+      <div className="flex justify-between text-lg font-semibold">
+        <span>{min}</span>
+        <span>{max}</span>
+      </div>
+      <p className="text-sm text-muted-foreground text-center mt-2">
+        {shown === null ? "Tap or drag on the line to place your answer" : "Drag the marker to move it"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState, type DragEvent } from "react";
+import { ChevronDown, ChevronUp, GripVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { ORDER_SEPARATOR, type PublicItem } from "@shared/items";
+
+interface OrderingInputProps {
+  question: PublicItem<"ordering">;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Items are dragged into place; the arrow buttons do the same on touch
+// screens, where native drag and drop is not available
+export function OrderingInput({ question, value, onChange }: OrderingInputProps) {
+  const order = value ? value.split(ORDER_SEPARATOR) : question.items;
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= order.length) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next.join(ORDER_SEPARATOR));
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLIElement>, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null) move(dragIndex, index);
+    setDragIndex(null);
+  };
+
+  return (
+    <ol className="space-y-2" aria-label="Items to put in order">
+      {order.map((item, index) => (
+        <li
+          key={item}
+          draggable
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => handleDrop(e, index)}
+          onDragEnd={() => setDragIndex(null)}
+          className={cn(
+            "flex items-center gap-3 rounded-lg border-2 bg-card px-3 py-2 cursor-grab",
+            dragIndex === index ? "border-primary opacity-50" : "border-border"
+          )}
+        >
+          <GripVertical className="w-5 h-5 text-muted-foreground" />
+          <span className="flex-1 text-lg font-semibold">{item}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label={`Move ${item} up`}
+            disabled={index === 0}
+            onClick={() => move(index, index - 1)}
+          >
+            <ChevronUp />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label={`Move ${item} down`}
+            disabled={index === order.length - 1}
+            onClick={() => move(index, index + 1)}
+          >
+            <ChevronDown />
+          </Button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,48 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { RoadmapStep } from "@shared/roadmap";
+
+interface RoadmapStepCardProps {
+  step: RoadmapStep;
+}
+
+// One step of a roadmap with its plan and the catalog resources it uses,
+// linked where the catalog has a URL
+export function RoadmapStepCard({ step }: RoadmapStepCardProps) {
+  return (
+    <Card className="border-l-4 border-l-primary">
+      <CardHeader>
+        <CardTitle className="text-lg">
+          Step {step.stepNumber}: {step.title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <p className="font-semibold text-sm text-muted-foreground mb-1">Execution Plan:</p>
+          <p className="text-sm whitespace-pre-wrap">{step.executionPlan}</p>
+        </div>
+        {step.resources.length > 0 && (
+          <div>
+            <p className="font-semibold text-sm text-muted-foreground mb-1">Resources:</p>
+            <ul className="list-disc list-inside space-y-1">
+              {step.resources.map((resource) => (
+                <li key={resource.resourceId ?? resource.name} className="text-sm">
+                  {resource.url ? (
+                    <a href={resource.url} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+                      {resource.name}
+                    </a>
+                  ) : (
+                    <span className="font-medium">{resource.name}</span>
+                  )}
+                  {resource.kind && (
+                    <span className="text-muted-foreground"> ({[resource.kind, resource.cost].filter(Boolean).join(", ")})</span>
+                  )}
+                  {resource.use && <span className="text-muted-foreground">: {resource.use}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
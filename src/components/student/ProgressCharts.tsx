@@ -0,0 +1,178 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CONSTRUCTS } from "@shared/constructs";
+import type { FluencyByConstruct } from "@/lib/fluency";
+import type { AbilityEstimates } from "@/lib/irt";
+
+const CONSTRUCT_COLORS = [
+  "hsl(180 65% 45%)",
+  "hsl(15 80% 60%)",
+  "hsl(260 55% 60%)",
+  "hsl(145 55% 40%)",
+  "hsl(45 90% 50%)",
+  "hsl(330 65% 55%)",
+];
+
+// Chart keys become CSS variable names, so constructs are keyed by slug
+function constructKey(construct: string): string {
+  return construct.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+}
+
+const chartConfig = Object.fromEntries(
+  CONSTRUCTS.map((construct, i) => [constructKey(construct), { label: construct, color: CONSTRUCT_COLORS[i % CONSTRUCT_COLORS.length] }])
+) satisfies ChartConfig;
+
+type Metric = "accuracy" | "ability" | "latency";
+
+const METRICS: { value: Metric; label: string; axis: string; unit?: string }[] = [
+  { value: "accuracy", label: "Accuracy", axis: "% correct", unit: "%" },
+  { value: "ability", label: "Ability estimate", axis: "θ (logits)" },
+  { value: "latency", label: "Latency", axis: "Median seconds", unit: "s" },
+];
+
+export interface ProgressTest {
+  id: string;
+  created_at: string;
+  overall_severity: string | null;
+  ability_estimates: AbilityEstimates | null;
+  fluency_metrics: FluencyByConstruct | null;
+  responses: { construct_tested: string; is_correct: boolean }[];
+}
+
+// When a roadmap was put in place or revised
+export interface Intervention {
+  date: string;
+  label: string;
+}
+
+interface ProgressChartsProps {
+  tests: ProgressTest[];
+  interventions: Intervention[];
+}
+
+function metricValue(test: ProgressTest, construct: string, metric: Metric): number | null {
+  if (metric === "accuracy") {
+    const answers = test.responses.filter((r) => r.construct_tested === construct);
+    if (answers.length === 0) return null;
+    return Math.round((answers.filter((r) => r.is_correct).length / answers.length) * 100);
+  }
+  if (metric === "ability") {
+    // With no items the estimate is just the prior mean
+    const estimate = test.ability_estimates?.[construct];
+    return estimate && estimate.itemCount > 0 ? Number(estimate.theta.toFixed(2)) : null;
+  }
+  const latency = test.fluency_metrics?.[construct]?.medianLatencyMs;
+  return latency == null ? null : Number((latency / 1000).toFixed(1));
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toLocaleDateString();
+}
+
+// Accuracy, ability estimate and latency per construct across a student's
+// tests, with roadmap starts and revisions marked and changes in overall
+// severity annotated
+export function ProgressCharts({ tests, interventions }: ProgressChartsProps) {
+  const [metric, setMetric] = useState<Metric>("accuracy");
+  const selected = METRICS.find((m) => m.value === metric) ?? METRICS[0];
+
+  const chronological = useMemo(
+    () => [...tests].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()),
+    [tests]
+  );
+
+  const data = useMemo(() => chronological.map((test) => ({
+    time: new Date(test.created_at).getTime(),
+    ...Object.fromEntries(CONSTRUCTS.map((c) => [constructKey(c), metricValue(test, c, metric)])),
+  })), [chronological, metric]);
+
+  const severityChanges = useMemo(() => {
+    const changes: { time: number; label: string }[] = [];
+    let previous: string | null = null;
+    for (const test of chronological) {
+      if (!test.overall_severity) continue;
+      if (previous && previous !== test.overall_severity) {
+        changes.push({ time: new Date(test.created_at).getTime(), label: `${previous} → ${test.overall_severity}` });
+      }
+      previous = test.overall_severity;
+    }
+    return changes;
+  }, [chronological]);
+
+  const marks = interventions.map((i) => ({ time: new Date(i.date).getTime(), label: i.label }));
+
+  // Pad the time axis so a single test, or marks on the same day as a test,
+  // do not sit on the edge of the chart
+  const times = [...data.map((d) => d.time), ...marks.map((m) => m.time)];
+  const padding = Math.max((Math.max(...times) - Math.min(...times)) * 0.05, 24 * 60 * 60 * 1000);
+  const domain = [Math.min(...times) - padding, Math.max(...times) + padding];
+
+  if (tests.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <Tabs value={metric} onValueChange={(value) => setMetric(value as Metric)}>
+        <TabsList>
+          {METRICS.map((m) => (
+            <TabsTrigger key={m.value} value={m.value}>{m.label}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+        <LineChart data={data} margin={{ top: 24, right: 16, bottom: 0, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" dataKey="time" scale="time" domain={domain} tickFormatter={formatDate} />
+          <YAxis
+            unit={selected.unit}
+            domain={metric === "accuracy" ? [0, 100] : ["auto", "auto"]}
+            label={{ value: selected.axis, angle: -90, position: "insideLeft", style: { textAnchor: "middle" } }}
+          />
+          {marks.map((mark, i) => (
+            <ReferenceLine
+              key={`intervention-${i}`}
+              x={mark.time}
+              stroke="hsl(var(--primary))"
+              strokeDasharray="4 4"
+              label={{ value: mark.label, position: "top", fontSize: 10, fill: "hsl(var(--primary))" }}
+            />
+          ))}
+          {severityChanges.map((change) => (
+            <ReferenceLine
+              key={`severity-${change.time}`}
+              x={change.time}
+              stroke="hsl(var(--destructive))"
+              label={{ value: change.label, position: "insideTopRight", fontSize: 10, fill: "hsl(var(--destructive))" }}
+            />
+          ))}
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDate(payload[0]?.payload.time)} />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {CONSTRUCTS.map((construct) => (
+            <Line
+              key={construct}
+              type="monotone"
+              dataKey={constructKey(construct)}
+              stroke={`var(--color-${constructKey(construct)})`}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+
+      <p className="text-xs text-muted-foreground">
+        Dashed lines mark when a roadmap was started or revised; solid red lines mark a change in overall severity.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CONSTRUCTS } from "@shared/constructs";
+import { MISCONCEPTION_LABELS, type Misconception } from "@shared/misconceptions";
+import { CheckCircle2, XCircle } from "lucide-react";
+
+export interface TestResponseRow {
+  id: string;
+  question_number: number;
+  question_text: string;
+  user_answer: string | null;
+  correct_answer: string;
+  construct_tested: string;
+  difficulty_level: number;
+  is_correct: boolean;
+  misconception: string | null;
+  readability_grade: number | null;
+}
+
+// Reading grade bands to filter by; answers to hard-to-read items may say
+// more about reading than maths
+const READING_FILTERS: { value: string; label: string; matches: (grade: number | null) => boolean }[] = [
+  { value: "any", label: "Any reading grade", matches: () => true },
+  { value: "2", label: "Reading grade 2 or below", matches: (grade) => grade !== null && grade <= 2 },
+  { value: "4", label: "Reading grade 4 or below", matches: (grade) => grade !== null && grade <= 4 },
+  { value: "6", label: "Reading grade 6 or below", matches: (grade) => grade !== null && grade <= 6 },
+  { value: "above-6", label: "Above reading grade 6", matches: (grade) => grade !== null && grade > 6 },
+];
+
+interface TestResponsesTableProps {
+  responses: TestResponseRow[];
+}
+
+// Every answer of a test, filterable by construct, correctness and reading grade
+export function TestResponsesTable({ responses }: TestResponsesTableProps) {
+  const [construct, setConstruct] = useState("all");
+  const [outcome, setOutcome] = useState("all");
+  const [reading, setReading] = useState("any");
+
+  const shown = useMemo(() => {
+    const readingFilter = READING_FILTERS.find((f) => f.value === reading) ?? READING_FILTERS[0];
+    return responses.filter((r) =>
+      (construct === "all" || r.construct_tested === construct) &&
+      (outcome === "all" || (outcome === "incorrect") !== r.is_correct) &&
+      readingFilter.matches(r.readability_grade)
+    );
+  }, [responses, construct, outcome, reading]);
+
+  if (responses.length === 0) {
+    return <p className="text-sm text-muted-foreground">No answers were recorded for this test.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Select value={construct} onValueChange={setConstruct}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All constructs</SelectItem>
+            {CONSTRUCTS.map((c) => (
+              <SelectItem key={c} value={c}>{c}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={outcome} onValueChange={setOutcome}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All answers</SelectItem>
+            <SelectItem value="incorrect">Incorrect only</SelectItem>
+            <SelectItem value="correct">Correct only</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={reading} onValueChange={setReading}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {READING_FILTERS.map((f) => (
+              <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="self-center text-xs text-muted-foreground">
+          {shown.length} of {responses.length} answers
+        </span>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">#</TableHead>
+            <TableHead>Question</TableHead>
+            <TableHead>Answer</TableHead>
+            <TableHead>Correct answer</TableHead>
+            <TableHead>Construct</TableHead>
+            <TableHead className="text-center">Difficulty</TableHead>
+            <TableHead className="text-center">Reading grade</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {shown.map((r) => (
+            <TableRow key={r.id}>
+              <TableCell className="text-muted-foreground">{r.question_number}</TableCell>
+              <TableCell className="max-w-xs">{r.question_text}</TableCell>
+              <TableCell>
+                <div className="flex items-center gap-1.5">
+                  {r.is_correct
+                    ? <CheckCircle2 className="w-4 h-4 shrink-0 text-primary" aria-label="Correct" />
+                    : <XCircle className="w-4 h-4 shrink-0 text-destructive" aria-label="Incorrect" />}
+                  <span>{r.user_answer || "–"}</span>
+                </div>
+                {r.misconception && r.misconception !== "unclassified" && (
+                  <Badge variant="outline" className="mt-1 text-xs">
+                    {MISCONCEPTION_LABELS[r.misconception as Misconception] ?? r.misconception}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell>{r.correct_answer}</TableCell>
+              <TableCell>{r.construct_tested}</TableCell>
+              <TableCell className="text-center">{r.difficulty_level}</TableCell>
+              <TableCell className="text-center">{r.readability_grade ?? "–"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
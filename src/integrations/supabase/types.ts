@@ -17,26 +17,38 @@ export type Database = {
       blockers_detected: {
         Row: {
           blocker_name: string
+          blocker_type: string
+          confidence: number | null
+          confirmatory_score: number | null
           created_at: string | null
           error_count: number
           id: string
           is_confirmed: boolean | null
+          misconceptions: Json
           test_id: string
         }
         Insert: {
           blocker_name: string
+          blocker_type?: string
+          confidence?: number | null
+          confirmatory_score?: number | null
           created_at?: string | null
           error_count: number
           id?: string
           is_confirmed?: boolean | null
+          misconceptions?: Json
           test_id: string
         }
         Update: {
           blocker_name?: string
+          blocker_type?: string
+          confidence?: number | null
+          confirmatory_score?: number | null
           created_at?: string | null
           error_count?: number
           id?: string
           is_confirmed?: boolean | null
+          misconceptions?: Json
           test_id?: string
         }
         Relationships: [
@@ -51,37 +63,52 @@ export type Database = {
       }
       diagnostic_tests: {
         Row: {
+          ability_estimates: Json | null
           age_at_test: number
           completed_at: string | null
           created_at: string | null
+          fluency_metrics: Json | null
           id: string
+          main_test_length: number | null
+          number_line_estimation: Json | null
           overall_severity: Database["public"]["Enums"]["severity_level"] | null
+          question_set: Json
           started_at: string | null
           status: Database["public"]["Enums"]["test_status"] | null
           student_id: string
           updated_at: string | null
         }
         Insert: {
+          ability_estimates?: Json | null
           age_at_test: number
           completed_at?: string | null
           created_at?: string | null
+          fluency_metrics?: Json | null
           id?: string
+          main_test_length?: number | null
+          number_line_estimation?: Json | null
           overall_severity?:
             | Database["public"]["Enums"]["severity_level"]
             | null
+          question_set?: Json
           started_at?: string | null
           status?: Database["public"]["Enums"]["test_status"] | null
           student_id: string
           updated_at?: string | null
         }
         Update: {
+          ability_estimates?: Json | null
           age_at_test?: number
           completed_at?: string | null
           created_at?: string | null
+          fluency_metrics?: Json | null
           id?: string
+          main_test_length?: number | null
+          number_line_estimation?: Json | null
           overall_severity?:
             | Database["public"]["Enums"]["severity_level"]
             | null
+          question_set?: Json
           started_at?: string | null
           status?: Database["public"]["Enums"]["test_status"] | null
           student_id?: string
@@ -97,6 +124,228 @@ export type Database = {
           },
         ]
       }
+      generation_provenance: {
+        Row: {
+          created_at: string | null
+          function_name: string
+          function_version: number
+          id: string
+          input: Json
+          input_hash: string
+          kind: string
+          model: string | null
+          prompt_name: string | null
+          prompt_version: number | null
+          provider: string | null
+          question_numbers: number[]
+          raw_outputs: Json
+          source: string
+          temperature: number | null
+          test_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          function_name: string
+          function_version: number
+          id?: string
+          input: Json
+          input_hash: string
+          kind: string
+          model?: string | null
+          prompt_name?: string | null
+          prompt_version?: number | null
+          provider?: string | null
+          question_numbers?: number[]
+          raw_outputs?: Json
+          source: string
+          temperature?: number | null
+          test_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          function_name?: string
+          function_version?: number
+          id?: string
+          input?: Json
+          input_hash?: string
+          kind?: string
+          model?: string | null
+          prompt_name?: string | null
+          prompt_version?: number | null
+          provider?: string | null
+          question_numbers?: number[]
+          raw_outputs?: Json
+          source?: string
+          temperature?: number | null
+          test_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_provenance_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "diagnostic_tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_quotas: {
+        Row: {
+          created_at: string | null
+          daily_limit: number
+          kind: string
+          teacher_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          daily_limit: number
+          kind: string
+          teacher_id: string
+        }
+        Update: {
+          created_at?: string | null
+          daily_limit?: number
+          kind?: string
+          teacher_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_quotas_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_usage: {
+        Row: {
+          count: number
+          kind: string
+          teacher_id: string
+          usage_date: string
+        }
+        Insert: {
+          count?: number
+          kind: string
+          teacher_id: string
+          usage_date: string
+        }
+        Update: {
+          count?: number
+          kind?: string
+          teacher_id?: string
+          usage_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_usage_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      item_keys: {
+        Row: {
+          created_at: string | null
+          id: string
+          item: Json
+          pool_item_id: string | null
+          provenance_id: string | null
+          question_number: number
+          test_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          item: Json
+          pool_item_id?: string | null
+          provenance_id?: string | null
+          question_number: number
+          test_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          item?: Json
+          pool_item_id?: string | null
+          provenance_id?: string | null
+          question_number?: number
+          test_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_keys_pool_item_id_fkey"
+            columns: ["pool_item_id"]
+            isOneToOne: false
+            referencedRelation: "item_pool"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_keys_provenance_id_fkey"
+            columns: ["provenance_id"]
+            isOneToOne: false
+            referencedRelation: "generation_provenance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_keys_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "diagnostic_tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      item_pool: {
+        Row: {
+          age_band: string
+          construct: string
+          created_at: string | null
+          difficulty_level: number
+          fingerprint: string
+          id: string
+          item: Json
+          provenance_id: string | null
+          raw_output: string | null
+          readability_grade: number | null
+        }
+        Insert: {
+          age_band: string
+          construct: string
+          created_at?: string | null
+          difficulty_level: number
+          fingerprint: string
+          id?: string
+          item: Json
+          provenance_id?: string | null
+          raw_output?: string | null
+          readability_grade?: number | null
+        }
+        Update: {
+          age_band?: string
+          construct?: string
+          created_at?: string | null
+          difficulty_level?: number
+          fingerprint?: string
+          id?: string
+          item?: Json
+          provenance_id?: string | null
+          raw_output?: string | null
+          readability_grade?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_pool_provenance_id_fkey"
+            columns: ["provenance_id"]
+            isOneToOne: false
+            referencedRelation: "generation_provenance"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -128,22 +377,38 @@ export type Database = {
         Row: {
           created_at: string | null
           id: string
+          provenance_id: string | null
           roadmap_data: Json
           test_id: string
+          updated_at: string | null
+          version: number
         }
         Insert: {
           created_at?: string | null
           id?: string
+          provenance_id?: string | null
           roadmap_data: Json
           test_id: string
+          updated_at?: string | null
+          version?: number
         }
         Update: {
           created_at?: string | null
           id?: string
+          provenance_id?: string | null
           roadmap_data?: Json
           test_id?: string
+          updated_at?: string | null
+          version?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "remediation_roadmaps_provenance_id_fkey"
+            columns: ["provenance_id"]
+            isOneToOne: false
+            referencedRelation: "generation_provenance"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "remediation_roadmaps_test_id_fkey"
             columns: ["test_id"]
@@ -153,6 +418,109 @@ export type Database = {
           },
         ]
       }
+      resources: {
+        Row: {
+          constructs: string[]
+          cost: string
+          created_at: string | null
+          description: string
+          id: string
+          kind: string
+          max_age: number
+          min_age: number
+          name: string
+          url: string | null
+        }
+        Insert: {
+          constructs: string[]
+          cost: string
+          created_at?: string | null
+          description: string
+          id: string
+          kind: string
+          max_age: number
+          min_age: number
+          name: string
+          url?: string | null
+        }
+        Update: {
+          constructs?: string[]
+          cost?: string
+          created_at?: string | null
+          description?: string
+          id?: string
+          kind?: string
+          max_age?: number
+          min_age?: number
+          name?: string
+          url?: string | null
+        }
+        Relationships: []
+      }
+      roadmap_revisions: {
+        Row: {
+          author_id: string | null
+          created_at: string | null
+          diff: Json
+          feedback: string | null
+          id: string
+          provenance_id: string | null
+          roadmap_data: Json
+          roadmap_id: string
+          source: string
+          step_numbers: number[]
+          version: number
+        }
+        Insert: {
+          author_id?: string | null
+          created_at?: string | null
+          diff?: Json
+          feedback?: string | null
+          id?: string
+          provenance_id?: string | null
+          roadmap_data: Json
+          roadmap_id: string
+          source: string
+          step_numbers?: number[]
+          version: number
+        }
+        Update: {
+          author_id?: string | null
+          created_at?: string | null
+          diff?: Json
+          feedback?: string | null
+          id?: string
+          provenance_id?: string | null
+          roadmap_data?: Json
+          roadmap_id?: string
+          source?: string
+          step_numbers?: number[]
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roadmap_revisions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roadmap_revisions_provenance_id_fkey"
+            columns: ["provenance_id"]
+            isOneToOne: false
+            referencedRelation: "generation_provenance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roadmap_revisions_roadmap_id_fkey"
+            columns: ["roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "remediation_roadmaps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       students: {
         Row: {
           age: number
@@ -188,16 +556,51 @@ export type Database = {
           },
         ]
       }
+      test_item_seeds: {
+        Row: {
+          created_at: string | null
+          seed: number
+          test_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          seed: number
+          test_id: string
+        }
+        Update: {
+          created_at?: string | null
+          seed?: number
+          test_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_item_seeds_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: true
+            referencedRelation: "diagnostic_tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       test_responses: {
         Row: {
           construct_tested: string
           correct_answer: string
           created_at: string | null
           difficulty_level: number
+          edit_count: number | null
+          first_input_at: string | null
           id: string
           is_correct: boolean
+          item_type: string
+          match_rule: string | null
+          misconception: string | null
+          provenance_id: string | null
           question_number: number
           question_text: string
+          readability_grade: number | null
+          shown_at: string | null
+          submitted_at: string | null
           test_id: string
           user_answer: string | null
         }
@@ -206,10 +609,19 @@ export type Database = {
           correct_answer: string
           created_at?: string | null
           difficulty_level: number
+          edit_count?: number | null
+          first_input_at?: string | null
           id?: string
           is_correct: boolean
+          item_type?: string
+          match_rule?: string | null
+          misconception?: string | null
+          provenance_id?: string | null
           question_number: number
           question_text: string
+          readability_grade?: number | null
+          shown_at?: string | null
+          submitted_at?: string | null
           test_id: string
           user_answer?: string | null
         }
@@ -218,14 +630,30 @@ export type Database = {
           correct_answer?: string
           created_at?: string | null
           difficulty_level?: number
+          edit_count?: number | null
+          first_input_at?: string | null
           id?: string
           is_correct?: boolean
+          item_type?: string
+          match_rule?: string | null
+          misconception?: string | null
+          provenance_id?: string | null
           question_number?: number
           question_text?: string
+          readability_grade?: number | null
+          shown_at?: string | null
+          submitted_at?: string | null
           test_id?: string
           user_answer?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "test_responses_provenance_id_fkey"
+            columns: ["provenance_id"]
+            isOneToOne: false
+            referencedRelation: "generation_provenance"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "test_responses_test_id_fkey"
             columns: ["test_id"]
@@ -237,10 +665,89 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      item_pool_stock: {
+        Row: {
+          age_band: string | null
+          construct: string | null
+          difficulty_level: number | null
+          item_count: number | null
+        }
+        Relationships: []
+      }
+      pooled_item_outputs: {
+        Row: {
+          provenance_id: string | null
+          question_number: number | null
+          raw_output: string | null
+          test_id: string | null
+        }
+        Relationships: []
+      }
+      pooled_item_provenance: {
+        Row: {
+          created_at: string | null
+          function_name: string | null
+          function_version: number | null
+          id: string | null
+          input: Json | null
+          input_hash: string | null
+          kind: string | null
+          model: string | null
+          prompt_name: string | null
+          prompt_version: number | null
+          provider: string | null
+          source: string | null
+          temperature: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      complete_diagnostic_test: {
+        Args: {
+          p_overall_severity: Database["public"]["Enums"]["severity_level"]
+          p_test_id: string
+        }
+        Returns: undefined
+      }
+      consume_generation_quota: {
+        Args: {
+          p_amount?: number
+          p_charge_key?: string
+          p_default_limit: number
+          p_kind: string
+          p_teacher_id: string
+        }
+        Returns: {
+          allowed: boolean
+          charged: boolean
+          daily_limit: number
+          used: number
+        }[]
+      }
+      refund_generation_quota: {
+        Args: {
+          p_amount?: number
+          p_charge_key?: string
+          p_kind: string
+          p_teacher_id: string
+        }
+        Returns: undefined
+      }
+      save_roadmap_revision: {
+        Args: {
+          p_author_id: string
+          p_base_version: number
+          p_diff: Json
+          p_feedback?: string
+          p_provenance_id?: string
+          p_roadmap_data: Json
+          p_roadmap_id: string
+          p_source: string
+          p_step_numbers?: number[]
+        }
+        Returns: number
+      }
     }
     Enums: {
       severity_level: "none" | "mild" | "moderate" | "severe"
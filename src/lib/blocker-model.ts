@@ -0,0 +1,92 @@
+import { difficultyToLogit, probabilityCorrect } from "@/lib/irt";
+
+// Likelihood-based blocker model. For each construct we compare two
+// hypotheses about the child - performing like a typical child of their age,
+// or performing well below it - and report the posterior probability of a
+// deficit. Harder items count for less when missed and more when passed, and
+// younger children are allowed more careless slips.
+
+export interface BlockerModelConfig {
+  // Prior probability that a referred child has a deficit in any one construct
+  priorDeficit: number;
+  // Ability (logits, relative to age-appropriate items) under each hypothesis
+  typicalTheta: number;
+  deficitTheta: number;
+  // Chance of missing an item the child could answer, by age band
+  slipByAge: { minAge: number; slip: number }[];
+  // Posterior probability at which a construct is flagged as a blocker
+  flagThreshold: number;
+  // Constructs with fewer items than this are never flagged
+  minItems: number;
+}
+
+export const BLOCKER_MODEL_CONFIG: BlockerModelConfig = {
+  priorDeficit: 0.25,
+  typicalTheta: 0,
+  deficitTheta: -2,
+  slipByAge: [
+    { minAge: 8, slip: 0.05 },
+    { minAge: 0, slip: 0.1 },
+  ],
+  flagThreshold: 0.55,
+  minItems: 2,
+};
+
+export interface ScoredItem {
+  construct: string;
+  difficultyLevel: number;
+  isCorrect: boolean;
+}
+
+export interface DeficitEstimate {
+  itemCount: number;
+  errorCount: number;
+  probability: number;
+  isBlocker: boolean;
+}
+
+function slipRate(age: number, config: BlockerModelConfig): number {
+  const band = config.slipByAge.find((b) => age >= b.minAge) ?? config.slipByAge[config.slipByAge.length - 1];
+  return band.slip;
+}
+
+function likelihood(items: ScoredItem[], theta: number, slip: number): number {
+  return items.reduce((product, item) => {
+    const p = (1 - slip) * probabilityCorrect(theta, difficultyToLogit(item.difficultyLevel));
+    return product * (item.isCorrect ? p : 1 - p);
+  }, 1);
+}
+
+export function deficitProbability(
+  items: ScoredItem[],
+  age: number,
+  config: BlockerModelConfig = BLOCKER_MODEL_CONFIG
+): number {
+  const slip = slipRate(age, config);
+  const deficit = config.priorDeficit * likelihood(items, config.deficitTheta, slip);
+  const typical = (1 - config.priorDeficit) * likelihood(items, config.typicalTheta, slip);
+  return deficit / (deficit + typical);
+}
+
+export function estimateDeficits(
+  items: ScoredItem[],
+  age: number,
+  config: BlockerModelConfig = BLOCKER_MODEL_CONFIG
+): Record<string, DeficitEstimate> {
+  const byConstruct = items.reduce((acc, item) => {
+    if (!acc[item.construct]) acc[item.construct] = [];
+    acc[item.construct].push(item);
+    return acc;
+  }, {} as Record<string, ScoredItem[]>);
+
+  return Object.entries(byConstruct).reduce((acc, [construct, constructItems]) => {
+    const probability = deficitProbability(constructItems, age, config);
+    acc[construct] = {
+      itemCount: constructItems.length,
+      errorCount: constructItems.filter((i) => !i.isCorrect).length,
+      probability,
+      isBlocker: constructItems.length >= config.minItems && probability >= config.flagThreshold,
+    };
+    return acc;
+  }, {} as Record<string, DeficitEstimate>);
+}
@@ -0,0 +1,92 @@
+import { computeFluency, type TimedResponse } from "@/lib/fluency";
+import type { Misconception } from "@shared/misconceptions";
+
+// The confirmatory phase probes each candidate blocker with its own items and
+// confirms or rejects it on that evidence alone.
+
+export interface ConfirmatoryConfig {
+  // Total confirmatory items across all blockers
+  totalBudget: number;
+  minItemsPerBlocker: number;
+  maxItemsPerBlocker: number;
+  // A blocker is confirmed when the child answers fewer than this share of
+  // its confirmatory items correctly
+  confirmationThreshold: number;
+}
+
+export const CONFIRMATORY_CONFIG: ConfirmatoryConfig = {
+  totalBudget: 10,
+  minItemsPerBlocker: 3,
+  maxItemsPerBlocker: 5,
+  confirmationThreshold: 0.6,
+};
+
+export interface Blocker {
+  blocker_name: string;
+  error_count: number;
+  blocker_type: "accuracy" | "fluency";
+  // Deficit probability for accuracy blockers; share of correct answers that
+  // were slow for fluency blockers
+  confidence: number | null;
+  // Misconception counts across the construct's wrong answers
+  misconceptions?: Partial<Record<Misconception, number>>;
+  // null until the blocker has been probed
+  is_confirmed?: boolean | null;
+  confirmatory_score?: number | null;
+}
+
+export interface ConfirmatoryPlanEntry {
+  blocker_name: string;
+  itemCount: number;
+}
+
+// Accuracy blockers with the highest confidence come first, then fluency blockers
+export function prioritizeBlockers<T extends Blocker>(blockers: T[]): T[] {
+  return [...blockers].sort((a, b) => {
+    if (a.blocker_type !== b.blocker_type) return a.blocker_type === "accuracy" ? -1 : 1;
+    return (b.confidence ?? 0) - (a.confidence ?? 0) || b.error_count - a.error_count;
+  });
+}
+
+// Splits the item budget across blockers in priority order. Blockers that do
+// not fit in the budget are left unprobed.
+export function planConfirmatoryPhase(blockers: Blocker[], config: ConfirmatoryConfig = CONFIRMATORY_CONFIG): ConfirmatoryPlanEntry[] {
+  if (blockers.length === 0) return [];
+
+  const perBlocker = Math.min(
+    config.maxItemsPerBlocker,
+    Math.max(config.minItemsPerBlocker, Math.floor(config.totalBudget / blockers.length))
+  );
+
+  const plan: ConfirmatoryPlanEntry[] = [];
+  let remaining = config.totalBudget;
+  for (const blocker of prioritizeBlockers(blockers)) {
+    if (remaining < config.minItemsPerBlocker) break;
+    const itemCount = Math.min(perBlocker, remaining);
+    plan.push({ blocker_name: blocker.blocker_name, itemCount });
+    remaining -= itemCount;
+  }
+  return plan;
+}
+
+export function evaluateBlockers<T extends Blocker>(
+  blockers: T[],
+  confirmatoryResponses: TimedResponse[],
+  age: number,
+  config: ConfirmatoryConfig = CONFIRMATORY_CONFIG
+): T[] {
+  const fluency = computeFluency(confirmatoryResponses, age);
+
+  return blockers.map((blocker) => {
+    const items = confirmatoryResponses.filter((r) => r.construct === blocker.blocker_name);
+    if (items.length === 0) return { ...blocker, is_confirmed: null, confirmatory_score: null };
+
+    const score = items.filter((r) => r.isCorrect).length / items.length;
+    const inaccurate = score < config.confirmationThreshold;
+    const isConfirmed = blocker.blocker_type === "fluency"
+      ? inaccurate || !!fluency[blocker.blocker_name]?.isSlow
+      : inaccurate;
+
+    return { ...blocker, is_confirmed: isConfirmed, confirmatory_score: score };
+  });
+}
@@ -0,0 +1,96 @@
+// Response-latency analytics. Slow, effortful retrieval is a core marker of
+// dyscalculia, so a child who is accurate but very slow in a construct is
+// flagged alongside children who make errors.
+
+export interface FluencyConfig {
+  // Age bands (inclusive lower bound) and the latency above which a level 1
+  // item counts as slow
+  slowThresholdsByAge: { minAge: number; thresholdMs: number }[];
+  // Each difficulty level above 1 extends the threshold by this fraction
+  difficultyScaling: number;
+  // Minimum correct answers in a construct before fluency is judged
+  minCorrectItems: number;
+  // Share of correct answers that were slow at which a construct is flagged
+  correctSlowRateThreshold: number;
+}
+
+export const FLUENCY_CONFIG: FluencyConfig = {
+  slowThresholdsByAge: [
+    { minAge: 12, thresholdMs: 10000 },
+    { minAge: 9, thresholdMs: 12000 },
+    { minAge: 7, thresholdMs: 15000 },
+    { minAge: 0, thresholdMs: 20000 },
+  ],
+  difficultyScaling: 0.25,
+  minCorrectItems: 2,
+  correctSlowRateThreshold: 0.5,
+};
+
+export interface TimedResponse {
+  construct: string;
+  difficultyLevel: number;
+  isCorrect: boolean;
+  shownAt?: string | null;
+  submittedAt?: string | null;
+}
+
+export interface FluencyMetrics {
+  itemCount: number;
+  medianLatencyMs: number | null;
+  correctCount: number;
+  correctSlowCount: number;
+  correctSlowRate: number | null;
+  isSlow: boolean;
+}
+
+export type FluencyByConstruct = Record<string, FluencyMetrics>;
+
+export function latencyMs(response: TimedResponse): number | null {
+  if (!response.shownAt || !response.submittedAt) return null;
+  const latency = new Date(response.submittedAt).getTime() - new Date(response.shownAt).getTime();
+  return Number.isFinite(latency) && latency >= 0 ? latency : null;
+}
+
+export function slowThresholdMs(age: number, difficultyLevel: number, config: FluencyConfig = FLUENCY_CONFIG): number {
+  const band = config.slowThresholdsByAge.find((b) => age >= b.minAge) ?? config.slowThresholdsByAge[config.slowThresholdsByAge.length - 1];
+  return band.thresholdMs * (1 + config.difficultyScaling * Math.max(0, difficultyLevel - 1));
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function computeFluency(
+  responses: TimedResponse[],
+  age: number,
+  config: FluencyConfig = FLUENCY_CONFIG
+): FluencyByConstruct {
+  const byConstruct = responses.reduce((acc, r) => {
+    if (!acc[r.construct]) acc[r.construct] = [];
+    acc[r.construct].push(r);
+    return acc;
+  }, {} as Record<string, TimedResponse[]>);
+
+  return Object.entries(byConstruct).reduce((acc, [construct, items]) => {
+    const timed = items.filter((r) => latencyMs(r) !== null);
+    const correct = timed.filter((r) => r.isCorrect);
+    const correctSlow = correct.filter((r) => latencyMs(r)! > slowThresholdMs(age, r.difficultyLevel, config));
+    const correctSlowRate = correct.length > 0 ? correctSlow.length / correct.length : null;
+
+    acc[construct] = {
+      itemCount: items.length,
+      medianLatencyMs: median(timed.map((r) => latencyMs(r)!)),
+      correctCount: correct.length,
+      correctSlowCount: correctSlow.length,
+      correctSlowRate,
+      isSlow:
+        correct.length >= config.minCorrectItems &&
+        correctSlowRate !== null &&
+        correctSlowRate >= config.correctSlowRateThreshold,
+    };
+    return acc;
+  }, {} as FluencyByConstruct);
+}
@@ -0,0 +1,94 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// An edge function's error response. Quota errors carry the number of seconds
+// until the teacher can generate again.
+export class FunctionError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfter: number | null = null) {
+    super(message);
+    this.name = "FunctionError";
+  }
+}
+
+// A streaming response whose connection dropped before the stream ended
+export class StreamInterruptedError extends Error {
+  constructor(readonly reason: unknown) {
+    super("The connection dropped");
+    this.name = "StreamInterruptedError";
+  }
+}
+
+// "3 h 20 min", "45 min", "less than a minute"
+export function formatRetryAfter(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60);
+  if (seconds < 60) return "less than a minute";
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+// Calls an edge function with the signed-in teacher's session, which the
+// functions use to check that the test belongs to them
+export async function callFunction(name: string, body: unknown): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  return fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+// The error an edge function responded with
+export async function functionError(response: Response, name: string): Promise<FunctionError> {
+  const body = await response.json().catch(() => null);
+  const message: string = body?.error ?? `${name} returned ${response.status}`;
+  const retryAfter = typeof body?.retryAfter === "number" ? body.retryAfter : null;
+
+  return new FunctionError(
+    retryAfter === null ? message : `${message} Try again in ${formatRetryAfter(retryAfter)}.`,
+    response.status,
+    retryAfter
+  );
+}
+
+export interface ServerEvent {
+  event: string;
+  data: unknown;
+}
+
+// Server-sent events from a streaming function response, as they arrive.
+// Ends quietly when the stream ends and throws StreamInterruptedError if the
+// connection drops.
+export async function* readEvents(response: Response): AsyncGenerator<ServerEvent> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    let chunk: ReadableStreamReadResult<string>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      throw new StreamInterruptedError(error);
+    }
+    const { value, done } = chunk;
+    if (done) return;
+    buffer += value;
+
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+      }
+      if (data.length > 0) yield { event, data: JSON.parse(data.join("\n")) };
+    }
+  }
+}
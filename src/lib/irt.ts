@@ -0,0 +1,107 @@
+import { CONSTRUCTS, MAX_DIFFICULTY, MIN_DIFFICULTY } from "@shared/constructs";
+
+// Computerized adaptive testing (CAT) on top of a Rasch / 2PL item response
+// model. Each construct has its own ability estimate, so a child can be strong
+// in Place Value and weak in Number Sense within the same session.
+
+export interface CatConfig {
+  // Hard cap on the number of items in the main test.
+  maxLength: number;
+  // Every construct gets at least this many items before it can be dropped.
+  minItemsPerConstruct: number;
+  // A construct stops receiving items once its standard error falls below this.
+  seThreshold: number;
+}
+
+export const CAT_CONFIG: CatConfig = {
+  maxLength: 20,
+  minItemsPerConstruct: 2,
+  seThreshold: 0.8,
+};
+
+export interface ItemResponse {
+  construct: string;
+  difficultyLevel: number;
+  isCorrect: boolean;
+  // 2PL discrimination; omit for the Rasch model (a = 1).
+  discrimination?: number;
+}
+
+export interface AbilityEstimate {
+  theta: number;
+  se: number;
+  itemCount: number;
+}
+
+export type AbilityEstimates = Record<string, AbilityEstimate>;
+
+export interface NextItem {
+  construct: string;
+  difficultyLevel: number;
+}
+
+// Quadrature grid for expected-a-posteriori (EAP) estimation over [-4, 4].
+// EAP stays finite when a child gets every item right (or wrong), which
+// maximum likelihood does not.
+const QUADRATURE_POINTS = Array.from({ length: 81 }, (_, i) => -4 + i * 0.1);
+
+// Difficulty levels 1-5 map onto item difficulties of -2..2 logits.
+export function difficultyToLogit(level: number): number {
+  return level - 3;
+}
+
+export function logitToDifficulty(theta: number): number {
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, Math.round(theta + 3)));
+}
+
+export function probabilityCorrect(theta: number, difficulty: number, discrimination = 1): number {
+  return 1 / (1 + Math.exp(-discrimination * (theta - difficulty)));
+}
+
+export function estimateAbility(responses: ItemResponse[]): AbilityEstimate {
+  // Standard normal prior on ability
+  const weights = QUADRATURE_POINTS.map((theta) => {
+    let likelihood = Math.exp(-(theta * theta) / 2);
+    for (const r of responses) {
+      const p = probabilityCorrect(theta, difficultyToLogit(r.difficultyLevel), r.discrimination ?? 1);
+      likelihood *= r.isCorrect ? p : 1 - p;
+    }
+    return likelihood;
+  });
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const theta = QUADRATURE_POINTS.reduce((sum, t, i) => sum + t * weights[i], 0) / total;
+  const variance = QUADRATURE_POINTS.reduce((sum, t, i) => sum + (t - theta) ** 2 * weights[i], 0) / total;
+
+  return { theta, se: Math.sqrt(variance), itemCount: responses.length };
+}
+
+export function estimateAllAbilities(responses: ItemResponse[]): AbilityEstimates {
+  return CONSTRUCTS.reduce((acc, construct) => {
+    acc[construct] = estimateAbility(responses.filter((r) => r.construct === construct));
+    return acc;
+  }, {} as AbilityEstimates);
+}
+
+// Picks the construct we know least about and the difficulty that is most
+// informative at the current ability estimate (for Rasch items, b closest to
+// theta). Returns null once the stopping rule is met.
+export function selectNextItem(responses: ItemResponse[], config: CatConfig = CAT_CONFIG): NextItem | null {
+  if (responses.length >= config.maxLength) return null;
+
+  const estimates = estimateAllAbilities(responses);
+  const candidates = CONSTRUCTS.filter(
+    (c) => estimates[c].itemCount < config.minItemsPerConstruct || estimates[c].se >= config.seThreshold
+  );
+  if (candidates.length === 0) return null;
+
+  const underMinimum = candidates.filter((c) => estimates[c].itemCount < config.minItemsPerConstruct);
+  const construct = underMinimum.length > 0
+    ? underMinimum.reduce((best, c) => (estimates[c].itemCount < estimates[best].itemCount ? c : best))
+    : candidates.reduce((best, c) => (estimates[c].se > estimates[best].se ? c : best));
+
+  return {
+    construct,
+    difficultyLevel: logitToDifficulty(estimates[construct].theta),
+  };
+}
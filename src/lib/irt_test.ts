@@ -0,0 +1,83 @@
+import { assert, assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { CONSTRUCTS } from "@shared/constructs";
+import {
+  estimateAbility,
+  logitToDifficulty,
+  probabilityCorrect,
+  selectNextItem,
+  type CatConfig,
+  type ItemResponse,
+} from "./irt.ts";
+
+function answers(construct: string, difficultyLevel: number, results: boolean[]): ItemResponse[] {
+  return results.map((isCorrect) => ({ construct, difficultyLevel, isCorrect }));
+}
+
+Deno.test("with no answers the estimate is the prior", () => {
+  const estimate = estimateAbility([]);
+  assertAlmostEquals(estimate.theta, 0, 1e-9);
+  assertAlmostEquals(estimate.se, 1, 0.01);
+  assertEquals(estimate.itemCount, 0);
+});
+
+Deno.test("all right or all wrong still gives a finite estimate", () => {
+  const right = estimateAbility(answers("Place Value", 3, [true, true, true, true]));
+  const wrong = estimateAbility(answers("Place Value", 3, [false, false, false, false]));
+  assert(right.theta > 0 && right.theta < 4);
+  assert(wrong.theta < 0 && wrong.theta > -4);
+  assertAlmostEquals(right.theta, -wrong.theta, 1e-9);
+});
+
+Deno.test("harder items answered right raise the estimate more", () => {
+  const easy = estimateAbility(answers("Place Value", 1, [true, true]));
+  const hard = estimateAbility(answers("Place Value", 5, [true, true]));
+  assert(hard.theta > easy.theta);
+});
+
+Deno.test("the standard error shrinks as answers come in", () => {
+  const few = estimateAbility(answers("Number Sense", 3, [true, false]));
+  const many = estimateAbility(answers("Number Sense", 3, [true, false, true, false, true, false]));
+  assert(many.se < few.se);
+  assert(few.se < estimateAbility([]).se);
+});
+
+Deno.test("an item at the child's ability is answered right half the time", () => {
+  assertEquals(probabilityCorrect(1, 1), 0.5);
+  assert(probabilityCorrect(2, 0) > probabilityCorrect(2, 0, 0.5));
+});
+
+Deno.test("abilities map onto the difficulty levels within bounds", () => {
+  assertEquals(logitToDifficulty(0), 3);
+  assertEquals(logitToDifficulty(1.4), 4);
+  assertEquals(logitToDifficulty(-9), 1);
+  assertEquals(logitToDifficulty(9), 5);
+});
+
+Deno.test("the first item is of middle difficulty", () => {
+  assertEquals(selectNextItem([]), { construct: CONSTRUCTS[0], difficultyLevel: 3 });
+});
+
+Deno.test("constructs short of their minimum are served first", () => {
+  const responses = CONSTRUCTS.slice(0, -1).flatMap((construct) => answers(construct, 3, [true, true]));
+  assertEquals(selectNextItem(responses)?.construct, CONSTRUCTS[CONSTRUCTS.length - 1]);
+});
+
+Deno.test("the test stops at its maximum length", () => {
+  const config: CatConfig = { maxLength: 4, minItemsPerConstruct: 2, seThreshold: 0.1 };
+  assertEquals(selectNextItem(answers("Number Sense", 3, [true, false, true, false]), config), null);
+});
+
+Deno.test("the test stops once every construct is measured precisely enough", () => {
+  const config: CatConfig = { maxLength: 100, minItemsPerConstruct: 2, seThreshold: 0.95 };
+  const responses = CONSTRUCTS.flatMap((construct) => answers(construct, 3, [true, false]));
+  assert(CONSTRUCTS.every((construct) => estimateAbility(responses.filter((r) => r.construct === construct)).se < 0.95));
+  assertEquals(selectNextItem(responses, config), null);
+});
+
+Deno.test("the least precise construct is served once every construct has its minimum", () => {
+  const config: CatConfig = { maxLength: 100, minItemsPerConstruct: 2, seThreshold: 0.1 };
+  const responses = CONSTRUCTS.flatMap((construct, i) =>
+    answers(construct, 3, i === 2 ? [true, false] : [true, false, true, false, true, false])
+  );
+  assertEquals(selectNextItem(responses, config)?.construct, CONSTRUCTS[2]);
+});
@@ -1,11 +1,20 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Brain, LogOut, Plus, User } from "lucide-react";
+import { Brain, Clock, History, LogOut, Play, Plus, User } from "lucide-react";
+import type { FluencyByConstruct } from "@/lib/fluency";
+import type { NumberLineEstimation } from "@shared/number-line";
+import { NumberLineChart } from "@/components/dashboard/NumberLineChart";
+import { ProvenanceDialog } from "@/components/dashboard/ProvenanceDialog";
+import { RoadmapEditorDialog } from "@/components/dashboard/RoadmapEditorDialog";
+import { ClassHeatmap } from "@/components/dashboard/ClassHeatmap";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { MISCONCEPTION_LABELS, type Misconception } from "@shared/misconceptions";
+import { validateRoadmap, type Roadmap } from "@shared/roadmap";
 import type { Session } from "@supabase/supabase-js";
 
 interface Student {
@@ -19,21 +28,11 @@ interface Blocker {
   id: string;
   blocker_name: string;
   error_count: number;
+  blocker_type: string;
+  confidence: number | null;
+  misconceptions: Partial<Record<Misconception, number>>;
   is_confirmed: boolean | null;
-}
-
-interface RoadmapStep {
-  step: number;
-  title: string;
-  description: string;
-  activities: string[];
-  duration: string;
-}
-
-interface Roadmap {
-  roadmap_data: {
-    steps: RoadmapStep[];
-  };
+  confirmatory_score: number | null;
 }
 
 interface DiagnosticTest {
@@ -43,18 +42,43 @@ interface DiagnosticTest {
   overall_severity: string | null;
   completed_at: string | null;
   created_at: string;
+  fluency_metrics: FluencyByConstruct | null;
+  number_line_estimation: NumberLineEstimation | null;
+  // Percent correct per construct; loaded only for each student's latest
+  // completed test, which the heatmap shows
+  construct_accuracy: Record<string, number> | null;
   blockers: Blocker[];
   roadmap: Roadmap | null;
+  // Why the saved roadmap could not be read, if it could not
+  roadmapError: string | null;
 }
 
 interface StudentWithTests extends Student {
   tests: DiagnosticTest[];
 }
 
+// Most frequent classified misconceptions across a test's blockers
+function topMisconceptions(blockers: Blocker[], limit = 3): [Misconception, number][] {
+  const totals: Partial<Record<Misconception, number>> = {};
+  blockers
+    .filter((b) => b.is_confirmed !== false)
+    .forEach((b) => {
+      Object.entries(b.misconceptions ?? {}).forEach(([category, count]) => {
+        const key = category as Misconception;
+        if (key !== "unclassified") totals[key] = (totals[key] || 0) + count;
+      });
+    });
+
+  return (Object.entries(totals) as [Misconception, number][])
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit);
+}
+
 export default function Dashboard() {
   const [session, setSession] = useState<Session | null>(null);
   const [studentsWithTests, setStudentsWithTests] = useState<StudentWithTests[]>([]);
   const [loading, setLoading] = useState(true);
+  const [view, setView] = useState("cards");
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -125,15 +149,47 @@ export default function Dashboard() {
 
       if (roadmapsError) throw roadmapsError;
 
-      const roadmapsByTest = (roadmaps || []).reduce((acc, roadmap) => {
-        acc[roadmap.test_id] = { roadmap_data: roadmap.roadmap_data as unknown as { steps: RoadmapStep[] } };
-        return acc;
-      }, {} as Record<string, Roadmap>);
+      // Answers of each student's latest completed test, for the heatmap
+      const latestCompletedIds = studentIds
+        .map((id) => tests?.find((t) => t.student_id === id && t.status === "completed")?.id)
+        .filter(Boolean);
+      const { data: answers, error: answersError } = await supabase
+        .from("test_responses")
+        .select("test_id, construct_tested, is_correct")
+        .in("test_id", latestCompletedIds);
+
+      if (answersError) throw answersError;
+
+      const accuracyByTest: Record<string, Record<string, number>> = {};
+      const answerCounts: Record<string, Record<string, { correct: number; total: number }>> = {};
+      (answers || []).forEach((a) => {
+        const counts = (answerCounts[a.test_id] ??= {});
+        const count = (counts[a.construct_tested] ??= { correct: 0, total: 0 });
+        count.total++;
+        if (a.is_correct) count.correct++;
+      });
+      Object.entries(answerCounts).forEach(([testId, counts]) => {
+        accuracyByTest[testId] = Object.fromEntries(
+          Object.entries(counts).map(([construct, c]) => [construct, Math.round((c.correct / c.total) * 100)])
+        );
+      });
+
+      // Roadmaps that do not match the roadmap contract are shown as errors
+      const roadmapsByTest: Record<string, Roadmap> = {};
+      const roadmapErrors: Record<string, string> = {};
+      for (const roadmap of roadmaps || []) {
+        const validation = validateRoadmap(roadmap.roadmap_data);
+        if (validation.valid) roadmapsByTest[roadmap.test_id] = validation.roadmap;
+        else roadmapErrors[roadmap.test_id] = validation.reason;
+      }
 
       // Group blockers by test_id
       const blockersByTest = (blockers || []).reduce((acc, blocker) => {
         if (!acc[blocker.test_id]) acc[blocker.test_id] = [];
-        acc[blocker.test_id].push(blocker);
+        acc[blocker.test_id].push({
+          ...blocker,
+          misconceptions: blocker.misconceptions as Partial<Record<Misconception, number>>,
+        });
         return acc;
       }, {} as Record<string, Blocker[]>);
 
@@ -142,8 +198,12 @@ export default function Dashboard() {
         if (!acc[test.student_id]) acc[test.student_id] = [];
         acc[test.student_id].push({
           ...test,
+          fluency_metrics: test.fluency_metrics as unknown as FluencyByConstruct | null,
+          number_line_estimation: test.number_line_estimation as unknown as NumberLineEstimation | null,
+          construct_accuracy: accuracyByTest[test.id] || null,
           blockers: blockersByTest[test.id] || [],
           roadmap: roadmapsByTest[test.id] || null,
+          roadmapError: roadmapErrors[test.id] ?? null,
         });
         return acc;
       }, {} as Record<string, DiagnosticTest[]>);
@@ -237,110 +297,207 @@ export default function Dashboard() {
             </CardContent>
           </Card>
         ) : (
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {studentsWithTests.map((student) => {
-              const latestTest = student.tests[0];
-              const totalTests = student.tests.length;
+          <>
+            <Tabs value={view} onValueChange={setView} className="mb-6">
+              <TabsList>
+                <TabsTrigger value="cards">Cards</TabsTrigger>
+                <TabsTrigger value="heatmap">Class Heatmap</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {view === "heatmap" ? (
+              <ClassHeatmap students={studentsWithTests} />
+            ) : (
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {studentsWithTests.map((student) => {
+                  const latestTest = student.tests[0];
+                  const totalTests = student.tests.length;
               
-              return (
-                <Card key={student.id} className="hover:shadow-lg transition-all">
-                  <CardHeader>
-                    <CardTitle>{student.name}</CardTitle>
-                    <CardDescription>Age: {student.age} years old</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-muted-foreground">Total Tests:</span>
-                      <Badge variant="secondary">{totalTests}</Badge>
-                    </div>
-                    
-                    {latestTest ? (
-                      <>
+                  return (
+                    <Card key={student.id} className="hover:shadow-lg transition-all">
+                      <CardHeader>
+                        <CardTitle>
+                          <Link to={`/students/${student.id}`} className="hover:text-primary hover:underline underline-offset-4">
+                            {student.name}
+                          </Link>
+                        </CardTitle>
+                        <CardDescription>Age: {student.age} years old</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
                         <div className="flex items-center justify-between">
-                          <span className="text-sm text-muted-foreground">Last Test:</span>
-                          <span className="text-sm">
-                            {new Date(latestTest.created_at).toLocaleDateString()}
-                          </span>
-                        </div>
-                        
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm text-muted-foreground">Status:</span>
-                          <Badge variant={latestTest.status === "completed" ? "default" : "outline"}>
-                            {latestTest.status === "completed" ? "Completed" : "In Progress"}
-                          </Badge>
+                          <span className="text-sm text-muted-foreground">Total Tests:</span>
+                          <Badge variant="secondary">{totalTests}</Badge>
                         </div>
+                    
+                        {latestTest ? (
+                          <>
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm text-muted-foreground">Last Test:</span>
+                              <span className="text-sm">
+                                {new Date(latestTest.created_at).toLocaleDateString()}
+                              </span>
+                            </div>
                         
-                        {latestTest.overall_severity && (
-                          <div className="flex items-center justify-between">
-                            <span className="text-sm text-muted-foreground">Severity:</span>
-                            <Badge 
-                              variant={
-                                latestTest.overall_severity === "severe" ? "destructive" :
-                                latestTest.overall_severity === "moderate" ? "default" :
-                                "secondary"
-                              }
-                            >
-                              {latestTest.overall_severity}
-                            </Badge>
-                          </div>
-                        )}
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm text-muted-foreground">Status:</span>
+                              <Badge variant={latestTest.status === "completed" ? "default" : "outline"}>
+                                {latestTest.status === "completed" ? "Completed" : "In Progress"}
+                              </Badge>
+                            </div>
+
+                            {latestTest.status === "in_progress" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="w-full"
+                                onClick={() => navigate(`/diagnostic/${latestTest.id}`)}
+                              >
+                                <Play className="w-4 h-4 mr-2" />
+                                Resume Assessment
+                              </Button>
+                            )}
                         
-                        {latestTest.blockers.length > 0 && (
-                          <div className="space-y-2">
-                            <span className="text-sm text-muted-foreground">Detected Blockers:</span>
-                            <div className="flex flex-wrap gap-1">
-                              {latestTest.blockers.slice(0, 3).map((blocker) => (
+                            {latestTest.overall_severity && (
+                              <div className="flex items-center justify-between">
+                                <span className="text-sm text-muted-foreground">Severity:</span>
                                 <Badge 
-                                  key={blocker.id} 
-                                  variant="outline" 
-                                  className="text-xs"
+                                  variant={
+                                    latestTest.overall_severity === "severe" ? "destructive" :
+                                    latestTest.overall_severity === "moderate" ? "default" :
+                                    "secondary"
+                                  }
                                 >
-                                  {blocker.blocker_name}
-                                  {blocker.is_confirmed && " ✓"}
+                                  {latestTest.overall_severity}
                                 </Badge>
-                              ))}
-                              {latestTest.blockers.length > 3 && (
-                                <Badge variant="outline" className="text-xs">
-                                  +{latestTest.blockers.length - 3} more
-                                </Badge>
-                              )}
-                            </div>
-                          </div>
-                        )}
+                              </div>
+                            )}
+                        
+                            {latestTest.blockers.length > 0 && (
+                              <div className="space-y-2">
+                                <span className="text-sm text-muted-foreground">Detected Blockers:</span>
+                                <div className="flex flex-wrap gap-1">
+                                  {latestTest.blockers.slice(0, 3).map((blocker) => (
+                                    <Badge 
+                                      key={blocker.id} 
+                                      variant="outline" 
+                                      className={`text-xs ${blocker.is_confirmed === false ? "line-through text-muted-foreground" : ""}`}
+                                      title={[
+                                        blocker.blocker_type === "fluency"
+                                          ? "Confidence: share of correct answers that were slow"
+                                          : "Confidence: probability of a deficit",
+                                        blocker.confirmatory_score !== null
+                                          ? `${Math.round(blocker.confirmatory_score * 100)}% correct on confirmatory items`
+                                          : "Not probed in the confirmatory phase",
+                                      ].join("\n")}
+                                    >
+                                      {blocker.blocker_type === "fluency" && <Clock className="w-3 h-3 mr-1" />}
+                                      {blocker.blocker_name}
+                                      {blocker.confidence !== null && (
+                                        <span className="ml-1 font-semibold">{Math.round(blocker.confidence * 100)}%</span>
+                                      )}
+                                      {blocker.is_confirmed && " ✓"}
+                                    </Badge>
+                                  ))}
+                                  {latestTest.blockers.length > 3 && (
+                                    <Badge variant="outline" className="text-xs">
+                                      +{latestTest.blockers.length - 3} more
+                                    </Badge>
+                                  )}
+                                </div>
+                                {topMisconceptions(latestTest.blockers).length > 0 && (
+                                  <ul className="text-xs text-muted-foreground space-y-0.5">
+                                    {topMisconceptions(latestTest.blockers).map(([category, count]) => (
+                                      <li key={category}>
+                                        {MISCONCEPTION_LABELS[category]} ({count})
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
+                            )}
                         
-                        {latestTest.roadmap && (
-                          <div className="mt-4 pt-4 border-t border-border space-y-3">
-                            <h4 className="text-sm font-semibold">Remediation Roadmap</h4>
-                            <div className="space-y-2">
-                              {latestTest.roadmap.roadmap_data.steps.slice(0, 2).map((step) => (
-                                <div key={step.step} className="text-xs bg-muted/30 rounded p-2">
-                                  <div className="font-medium text-foreground">
-                                    Step {step.step}: {step.title}
-                                  </div>
-                                  <div className="text-muted-foreground mt-1">
-                                    {step.description}
-                                  </div>
+                            {latestTest.fluency_metrics && Object.keys(latestTest.fluency_metrics).length > 0 && (
+                              <div className="space-y-2">
+                                <span className="text-sm text-muted-foreground">Median Response Time:</span>
+                                <div className="grid grid-cols-2 gap-1">
+                                  {Object.entries(latestTest.fluency_metrics).map(([construct, metrics]) => (
+                                    <div
+                                      key={construct}
+                                      className={`flex items-center justify-between text-xs rounded px-2 py-1 ${
+                                        metrics.isSlow ? "bg-destructive/10 text-destructive" : "bg-muted/30"
+                                      }`}
+                                    >
+                                      <span className="truncate mr-2">{construct}</span>
+                                      <span className="font-medium">
+                                        {metrics.medianLatencyMs !== null
+                                          ? `${(metrics.medianLatencyMs / 1000).toFixed(1)}s`
+                                          : "–"}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+
+                            {latestTest.number_line_estimation && latestTest.number_line_estimation.placements.length > 0 && (
+                              <NumberLineChart estimation={latestTest.number_line_estimation} />
+                            )}
+
+                            {latestTest.roadmap && (
+                              <div className="mt-4 pt-4 border-t border-border space-y-3">
+                                <h4 className="text-sm font-semibold">Remediation Roadmap</h4>
+                                <div className="space-y-2">
+                                  {latestTest.roadmap.steps.slice(0, 2).map((step) => (
+                                    <div key={step.stepNumber} className="text-xs bg-muted/30 rounded p-2">
+                                      <div className="font-medium text-foreground">
+                                        Step {step.stepNumber}: {step.title}
+                                      </div>
+                                      <div className="text-muted-foreground mt-1 line-clamp-3">
+                                        {step.executionPlan}
+                                      </div>
+                                    </div>
+                                  ))}
+                                  {latestTest.roadmap.steps.length > 2 && (
+                                    <p className="text-xs text-muted-foreground text-center">
+                                      +{latestTest.roadmap.steps.length - 2} more steps
+                                    </p>
+                                  )}
                                 </div>
-                              ))}
-                              {latestTest.roadmap.roadmap_data.steps.length > 2 && (
-                                <p className="text-xs text-muted-foreground text-center">
-                                  +{latestTest.roadmap.roadmap_data.steps.length - 2} more steps
-                                </p>
-                              )}
+                                <RoadmapEditorDialog
+                                  studentName={student.name}
+                                  testId={latestTest.id}
+                                  onSaved={() => session && loadStudents(session.user.id)}
+                                />
+                              </div>
+                            )}
+
+                            {!latestTest.roadmap && latestTest.roadmapError && (
+                              <div className="mt-4 pt-4 border-t border-border space-y-1">
+                                <h4 className="text-sm font-semibold text-destructive">This roadmap could not be read</h4>
+                                <p className="text-xs text-muted-foreground">{latestTest.roadmapError}</p>
+                              </div>
+                            )}
+
+                            <div className="flex flex-wrap gap-2">
+                              <Button variant="outline" size="sm" onClick={() => navigate(`/students/${student.id}`)}>
+                                <History className="w-4 h-4 mr-2" />
+                                View History
+                              </Button>
+                              <ProvenanceDialog studentName={student.name} tests={student.tests} />
                             </div>
-                          </div>
+                          </>
+                        ) : (
+                          <p className="text-sm text-muted-foreground text-center py-4">
+                            No tests completed yet
+                          </p>
                         )}
-                      </>
-                    ) : (
-                      <p className="text-sm text-muted-foreground text-center py-4">
-                        No tests completed yet
-                      </p>
-                    )}
-                  </CardContent>
-                </Card>
-              );
-            })}
-          </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </>
         )}
       </main>
     </div>
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,37 +8,314 @@ import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { Brain, CheckCircle2, Loader2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-
-interface Question {
+import type { Json } from "@/integrations/supabase/types";
+import { initialAnswer, type ItemType, type PublicQuestion } from "@shared/items";
+import { parseRoadmapStep, validateRoadmap, type Roadmap, type RoadmapStep } from "@shared/roadmap";
+import { computeFluency } from "@/lib/fluency";
+import { estimateDeficits } from "@/lib/blocker-model";
+import { summarizeMisconceptions } from "@shared/misconceptions";
+import { evaluateBlockers, planConfirmatoryPhase, type Blocker, type ConfirmatoryPlanEntry } from "@/lib/confirmatory";
+import { CAT_CONFIG, estimateAllAbilities, selectNextItem, type CatConfig, type ItemResponse, type NextItem } from "@/lib/irt";
+import { analyzeNumberLine, collectPlacements, numberLineTask } from "@shared/number-line";
+import { callFunction, functionError, FunctionError, readEvents, StreamInterruptedError } from "@/lib/functions";
+import { ItemInput } from "@/components/diagnostic/ItemInput";
+import { RoadmapStepCard } from "@/components/roadmap/RoadmapStepCard";
+
+interface TestResponse {
+  questionNumber: number;
   questionText: string;
+  itemType: ItemType;
+  userAnswer: string;
   correctAnswer: string;
+  isCorrect: boolean;
+  matchRule: string | null;
+  misconception: string | null;
   construct: string;
   difficultyLevel: number;
+  shownAt: string | null;
+  firstInputAt: string | null;
+  submittedAt: string | null;
+  editCount: number | null;
+}
+
+// Timing for the item currently on screen
+interface ItemTiming {
+  shownAt: Date;
+  firstInputAt: Date | null;
+  editCount: number;
+}
+
+// What the server returns once an answer is scored, including the key
+interface AnswerResult {
+  isCorrect: boolean;
+  matchRule: string | null;
+  misconception: string | null;
+  correctAnswer: string;
+}
+
+// Filled in as the roadmap streams in
+interface StreamedRoadmap extends Partial<Pick<Roadmap, "overallSeverity" | "summary">> {
+  steps: RoadmapStep[];
+}
+
+// interrupted: the connection dropped; failed: the function reported an error
+// or sent a malformed roadmap. Either way the steps so far are kept.
+type RoadmapStatus = "streaming" | "interrupted" | "failed" | "complete";
+
+// Times a dropped roadmap stream is picked up again before the teacher is asked
+const MAX_STREAM_RESUMES = 2;
+
+type Stage = "resuming" | "age" | "student-info" | "main-test" | "confirmatory" | "roadmap";
+
+// A step a resumed session still has to finish
+type PendingStep = "detect-blockers" | "roadmap";
+
+// The main test opens with the number line estimation task; the adaptive
+// items come on top of it
+function catConfigFor(age: number | null): CatConfig {
+  return { ...CAT_CONFIG, maxLength: CAT_CONFIG.maxLength + (age ? numberLineTask(age).length : 0) };
+}
+
+// Issues a single item for the construct and difficulty chosen by the
+// adaptive engine. The server draws it from its item pool, keeps the answer
+// key and falls back to its local generators when the pool runs dry.
+async function requestQuestion(testId: string | null, next: NextItem, answered: ItemResponse[]): Promise<PublicQuestion> {
+  const response = await callFunction("generate-question", {
+    testId,
+    questionNumber: answered.length + 1,
+    count: 1,
+    construct: next.construct,
+    difficultyLevel: next.difficultyLevel,
+  });
+
+  if (!response.ok) throw await functionError(response, "generate-question");
+  return response.json();
+}
+
+async function saveQuestionSet(id: string | null, questionSet: PublicQuestion[]) {
+  if (!id) return;
+
+  try {
+    const { error } = await supabase
+      .from("diagnostic_tests")
+      .update({ question_set: questionSet as unknown as Json })
+      .eq("id", id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error saving question set:", error);
+  }
 }
 
-interface Blocker {
-  blocker_name: string;
-  error_count: number;
+async function saveMainTestResults(
+  id: string | null,
+  mainResponses: TestResponse[],
+  testAge: number,
+  questionSet: PublicQuestion[]
+) {
+  if (!id) return;
+
+  try {
+    const { error } = await supabase
+      .from("diagnostic_tests")
+      .update({
+        main_test_length: mainResponses.length,
+        ability_estimates: estimateAllAbilities(mainResponses) as unknown as Json,
+        fluency_metrics: computeFluency(mainResponses, testAge) as unknown as Json,
+        number_line_estimation: analyzeNumberLine(collectPlacements(questionSet, mainResponses)) as unknown as Json,
+      })
+      .eq("id", id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error saving main test results:", error);
+  }
 }
 
 export default function Diagnostic() {
-  const [stage, setStage] = useState<"age" | "student-info" | "main-test" | "confirmatory" | "roadmap">("age");
+  const { testId: resumeTestId } = useParams<{ testId: string }>();
+  const [stage, setStage] = useState<Stage>(resumeTestId ? "resuming" : "age");
   const [age, setAge] = useState<number | null>(null);
   const [studentName, setStudentName] = useState("");
   const [studentId, setStudentId] = useState<string | null>(null);
   const [testId, setTestId] = useState<string | null>(null);
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [responses, setResponses] = useState<any[]>([]);
+  const [mainTestLength, setMainTestLength] = useState(0);
+  const [questions, setQuestions] = useState<PublicQuestion[]>([]);
+  const [responses, setResponses] = useState<TestResponse[]>([]);
   const [userAnswer, setUserAnswer] = useState("");
   const [loading, setLoading] = useState(false);
   const [blockers, setBlockers] = useState<Blocker[]>([]);
-  const [roadmap, setRoadmap] = useState<any>(null);
+  const [roadmap, setRoadmap] = useState<StreamedRoadmap | null>(null);
+  const [roadmapStatus, setRoadmapStatus] = useState<RoadmapStatus>("streaming");
+  const [pendingStep, setPendingStep] = useState<PendingStep | null>(null);
+  const itemTiming = useRef<ItemTiming>({ shownAt: new Date(), firstInputAt: null, editCount: 0 });
+  const pendingStepRunner = useRef<((step: PendingStep) => Promise<void>) | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  const MAIN_TEST_LENGTH = 10;
-  const CONFIRMATORY_LENGTH = 5;
+  const catConfig = catConfigFor(age);
+
+  // Quota errors tell the teacher when they can carry on
+  const showError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: error instanceof FunctionError && error.retryAfter !== null ? "Daily Limit Reached" : "Error",
+      description: error instanceof Error ? error.message : "Unknown error",
+    });
+  };
+
+  // Restart the clock whenever a new item is put in front of the child
+  const currentItem = questions[currentQuestion];
+  useEffect(() => {
+    itemTiming.current = { shownAt: new Date(), firstInputAt: null, editCount: 0 };
+    setUserAnswer(initialAnswer(currentItem));
+  }, [currentItem, stage]);
+
+  // Rebuilds an interrupted session from the stored question set, responses
+  // and blockers
+  const resumeSession = useCallback(async (id: string) => {
+    setLoading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      const { data: test, error: testError } = await supabase
+        .from("diagnostic_tests")
+        .select("*, students(id, name)")
+        .eq("id", id)
+        .single();
+
+      if (testError) throw testError;
+
+      if (test.status === "completed") {
+        toast({
+          title: "Assessment Already Completed",
+          description: "This assessment has finished. You can review it on the dashboard.",
+        });
+        navigate("/dashboard");
+        return;
+      }
+
+      const { data: storedResponses, error: responsesError } = await supabase
+        .from("test_responses")
+        .select("*")
+        .eq("test_id", id)
+        .order("question_number", { ascending: true });
+
+      if (responsesError) throw responsesError;
+
+      const { data: storedBlockers, error: blockersError } = await supabase
+        .from("blockers_detected")
+        .select("blocker_name, error_count, blocker_type, confidence, misconceptions, is_confirmed, confirmatory_score")
+        .eq("test_id", id);
+
+      if (blockersError) throw blockersError;
+
+      const restoredQuestions = (test.question_set as unknown as PublicQuestion[]) || [];
+      const restoredResponses = (storedResponses || []).map((r) => ({
+        questionNumber: r.question_number,
+        questionText: r.question_text,
+        itemType: r.item_type as ItemType,
+        userAnswer: r.user_answer ?? "",
+        correctAnswer: r.correct_answer,
+        isCorrect: r.is_correct,
+        matchRule: r.match_rule,
+        misconception: r.misconception,
+        construct: r.construct_tested,
+        difficultyLevel: r.difficulty_level,
+        shownAt: r.shown_at,
+        firstInputAt: r.first_input_at,
+        submittedAt: r.submitted_at,
+        editCount: r.edit_count,
+      }));
+
+      setTestId(test.id);
+      setStudentId(test.student_id);
+      setStudentName(test.students?.name ?? "");
+      setAge(test.age_at_test);
+      setQuestions(restoredQuestions);
+      setResponses(restoredResponses);
+      setBlockers((storedBlockers || []) as Blocker[]);
+      setCurrentQuestion(restoredResponses.length);
+
+      if (test.main_test_length === null) {
+        if (restoredResponses.length < restoredQuestions.length) {
+          setStage("main-test");
+          return;
+        }
+
+        // Every item issued so far is answered, but an answer is saved before
+        // the next item is requested, so the adaptive engine decides whether
+        // the main test goes on
+        const next = selectNextItem(restoredResponses, catConfigFor(test.age_at_test));
+        if (next) {
+          const nextQuestion = await requestQuestion(test.id, next, restoredResponses);
+          const newQuestions = [...restoredQuestions, nextQuestion];
+          setQuestions(newQuestions);
+          await saveQuestionSet(test.id, newQuestions);
+          setStage("main-test");
+          return;
+        }
+
+        // The stopping rule was met but the main test results were never saved
+        setMainTestLength(restoredResponses.length);
+        await saveMainTestResults(test.id, restoredResponses, test.age_at_test, restoredQuestions);
+        setPendingStep("detect-blockers");
+        return;
+      }
+
+      setMainTestLength(test.main_test_length);
+
+      if (restoredQuestions.length === test.main_test_length) {
+        // Main test finished but the confirmatory items were never generated
+        setPendingStep("detect-blockers");
+      } else if (restoredResponses.length < restoredQuestions.length) {
+        setStage("confirmatory");
+      } else {
+        // Every item answered but the roadmap was never generated
+        setPendingStep("roadmap");
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+      navigate("/dashboard");
+    } finally {
+      setLoading(false);
+    }
+  }, [navigate, toast]);
+
+  useEffect(() => {
+    if (resumeTestId) resumeSession(resumeTestId);
+  }, [resumeTestId, resumeSession]);
+
+  // A resumed session whose last step never finished picks it up once the
+  // restored state has been committed. The runner is refreshed after every
+  // render so that it sees that state; a step that fails sends the teacher
+  // back to the dashboard, where the session can be resumed again.
+  useEffect(() => {
+    pendingStepRunner.current = async (step) => {
+      try {
+        if (step === "detect-blockers") await detectBlockers(responses);
+        else await finishConfirmatory(responses);
+      } catch (error) {
+        showError(error);
+        navigate("/dashboard");
+      }
+    };
+  });
+
+  useEffect(() => {
+    if (!pendingStep) return;
+    setPendingStep(null);
+    pendingStepRunner.current?.(pendingStep);
+  }, [pendingStep]);
 
   const handleAgeSubmit = () => {
     if (!age || age < 5) {
@@ -95,42 +372,86 @@ export default function Diagnostic() {
       if (testError) throw testError;
       setTestId(test.id);
 
-      // Generate ALL 10 questions at once to avoid rate limits
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-question`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ age, errorHistory: [], count: 10 }),
-        }
-      );
-
-      if (response.status === 429) {
-        toast({
-          variant: "destructive",
-          title: "Rate Limit Exceeded",
-          description: "Service is busy. Please try again in a moment.",
-        });
-        setLoading(false);
-        return;
-      }
-
-      if (!response.ok) throw new Error("Failed to generate questions");
+      // The number line task is built in; the adaptive engine takes over once
+      // it has been answered
+      const response = await callFunction("generate-question", { testId: test.id, task: "number-line" });
+      if (!response.ok) throw await functionError(response, "generate-question");
 
-      const questions = await response.json();
-      setQuestions(Array.isArray(questions) ? questions : [questions]);
+      const task: PublicQuestion[] = await response.json();
+      setQuestions(task);
+      await saveQuestionSet(test.id, task);
       setStage("main-test");
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: error.message,
-      });
+    } catch (error) {
+      showError(error);
     } finally {
       setLoading(false);
     }
   };
 
+  // Issues the confirmatory items for the plan, in plan order and tagged with
+  // the blocker each one probes
+  const requestConfirmatoryQuestions = async (
+    plan: ConfirmatoryPlanEntry[],
+    firstQuestionNumber: number
+  ): Promise<PublicQuestion[]> => {
+    const response = await callFunction("generate-confirmatory-test", {
+      testId,
+      firstQuestionNumber,
+      blockers: plan.map((p) => ({ name: p.blocker_name, count: p.itemCount })),
+    });
+
+    if (!response.ok) throw await functionError(response, "generate-confirmatory-test");
+    return response.json();
+  };
+
+  // The answer is scored and recorded by the server, so an interrupted
+  // session can be resumed and the browser never decides what is correct
+  const submitAnswer = async (questionNumber: number, question: PublicQuestion): Promise<TestResponse> => {
+    const timing = itemTiming.current;
+    const shownAt = timing.shownAt.toISOString();
+    const firstInputAt = timing.firstInputAt?.toISOString() ?? null;
+    const submittedAt = new Date().toISOString();
+
+    const response = await callFunction("submit-answer", {
+      testId,
+      questionNumber,
+      answer: userAnswer,
+      shownAt,
+      firstInputAt,
+      submittedAt,
+      editCount: timing.editCount,
+    });
+
+    if (!response.ok) throw await functionError(response, "submit-answer");
+    const result: AnswerResult = await response.json();
+
+    return {
+      questionNumber,
+      questionText: question.questionText,
+      itemType: question.itemType,
+      userAnswer,
+      correctAnswer: result.correctAnswer,
+      isCorrect: result.isCorrect,
+      matchRule: result.matchRule,
+      misconception: result.misconception,
+      construct: question.construct,
+      difficultyLevel: question.difficultyLevel,
+      shownAt,
+      firstInputAt,
+      submittedAt,
+      editCount: timing.editCount,
+    };
+  };
+
+  // Counts corrections: any change after the first input that removes or
+  // replaces what was typed, chosen or placed
+  const handleAnswerChange = (value: string) => {
+    const timing = itemTiming.current;
+    if (timing.firstInputAt && !value.startsWith(userAnswer)) timing.editCount += 1;
+    if (!timing.firstInputAt) timing.firstInputAt = new Date();
+    setUserAnswer(value);
+  };
+
   const handleAnswerSubmit = async () => {
     if (!userAnswer.trim()) {
       toast({
@@ -141,82 +462,112 @@ export default function Diagnostic() {
       return;
     }
 
-    const question = questions[currentQuestion];
-    const isCorrect = userAnswer.trim().toLowerCase() === question.correctAnswer.toLowerCase();
-
-    const response = {
-      questionNumber: currentQuestion + 1,
-      questionText: question.questionText,
-      userAnswer,
-      correctAnswer: question.correctAnswer,
-      isCorrect,
-      construct: question.construct,
-      difficultyLevel: question.difficultyLevel,
-    };
+    // A failed submission leaves the child on the same question to try again
+    let response: TestResponse;
+    setLoading(true);
+    try {
+      response = await submitAnswer(currentQuestion + 1, questions[currentQuestion]);
+    } catch (error) {
+      showError(error);
+      return;
+    } finally {
+      setLoading(false);
+    }
 
     const newResponses = [...responses, response];
-    setResponses(newResponses);
-    setUserAnswer("");
 
-    // Check if main test is complete
-    if (stage === "main-test" && newResponses.length === MAIN_TEST_LENGTH) {
-      await saveResponses(newResponses.slice(0, MAIN_TEST_LENGTH));
-      await detectBlockers(newResponses);
+    // Built-in items already in the question set are served in order
+    if (stage === "main-test" && currentQuestion + 1 < questions.length) {
+      setResponses(newResponses);
+      setUserAnswer("");
+      setCurrentQuestion(currentQuestion + 1);
       return;
     }
 
-    // Check if confirmatory test is complete
-    if (stage === "confirmatory" && newResponses.length === MAIN_TEST_LENGTH + CONFIRMATORY_LENGTH) {
-      await saveResponses(newResponses.slice(MAIN_TEST_LENGTH));
-      await generateRoadmap(newResponses);
+    if (stage === "main-test") {
+      const next = selectNextItem(newResponses, catConfig);
+
+      // Stopping rule met: every construct is measured precisely enough or the
+      // maximum length was reached
+      if (!next) {
+        setResponses(newResponses);
+        setUserAnswer("");
+        setMainTestLength(newResponses.length);
+        await saveMainTestResults(testId, newResponses, age!, questions);
+        try {
+          await detectBlockers(newResponses);
+        } catch (error) {
+          showError(error);
+        }
+        return;
+      }
+
+      // Only move on once the next item is in hand; a failed request leaves
+      // the child on the same question, and resubmitting it returns the
+      // result already recorded
+      setLoading(true);
+      try {
+        const nextQuestion = await requestQuestion(testId, next, newResponses);
+        const newQuestions = [...questions, nextQuestion];
+        setResponses(newResponses);
+        setUserAnswer("");
+        setQuestions(newQuestions);
+        setCurrentQuestion(currentQuestion + 1);
+        await saveQuestionSet(testId, newQuestions);
+      } catch (error) {
+        showError(error);
+      } finally {
+        setLoading(false);
+      }
       return;
     }
 
-    // Move to next question (all questions already generated)
-    setCurrentQuestion(currentQuestion + 1);
-  };
-
-  const saveResponses = async (responsesToSave: any[]) => {
-    if (!testId) return;
+    setResponses(newResponses);
+    setUserAnswer("");
 
-    try {
-      const { error } = await supabase
-        .from("test_responses")
-        .insert(
-          responsesToSave.map((r) => ({
-            test_id: testId,
-            question_number: r.questionNumber,
-            question_text: r.questionText,
-            user_answer: r.userAnswer,
-            correct_answer: r.correctAnswer,
-            is_correct: r.isCorrect,
-            construct_tested: r.construct,
-            difficulty_level: r.difficultyLevel,
-          }))
-        );
-
-      if (error) throw error;
-    } catch (error: any) {
-      console.error("Error saving responses:", error);
+    // Check if confirmatory test is complete
+    if (stage === "confirmatory" && newResponses.length === questions.length) {
+      try {
+        await finishConfirmatory(newResponses);
+      } catch (error) {
+        showError(error);
+      }
+      return;
     }
+
+    // Move to next question (confirmatory questions already generated)
+    setCurrentQuestion(currentQuestion + 1);
   };
 
-  const detectBlockers = async (allResponses: any[]) => {
-    // Rule-based blocker detection: 2+ errors in same construct
-    const constructErrors: Record<string, number> = {};
-    allResponses
-      .filter((r) => !r.isCorrect)
-      .forEach((r) => {
-        constructErrors[r.construct] = (constructErrors[r.construct] || 0) + 1;
-      });
+  // Errors in this step and the ones it leads to are left to the caller
+  const detectBlockers = async (allResponses: TestResponse[]) => {
+    // Probability of a deficit per construct, weighted by item difficulty and age
+    const deficits = estimateDeficits(allResponses, age!);
+    const misconceptions = summarizeMisconceptions(allResponses);
 
-    const detectedBlockers: Blocker[] = Object.entries(constructErrors)
-      .filter(([_, count]) => count >= 2)
-      .map(([construct, count]) => ({
+    const detectedBlockers: Blocker[] = Object.entries(deficits)
+      .filter(([_, estimate]) => estimate.isBlocker)
+      .map(([construct, estimate]) => ({
         blocker_name: construct,
-        error_count: count,
+        error_count: estimate.errorCount,
+        blocker_type: "accuracy",
+        confidence: estimate.probability,
+        misconceptions: misconceptions[construct] ?? {},
       }));
 
+    // Accurate but consistently slow retrieval is flagged as a fluency blocker
+    Object.entries(computeFluency(allResponses, age!))
+      .filter(([construct, metrics]) => metrics.isSlow && !deficits[construct]?.isBlocker)
+      .forEach(([construct, metrics]) => {
+        detectedBlockers.push({
+          blocker_name: construct,
+          error_count: deficits[construct]?.errorCount ?? 0,
+          blocker_type: "fluency",
+          confidence: metrics.correctSlowRate,
+          misconceptions: misconceptions[construct] ?? {},
+        });
+      });
+
     if (detectedBlockers.length === 0) {
       // No blockers, skip to roadmap
       await generateRoadmap(allResponses);
@@ -225,9 +576,16 @@ export default function Diagnostic() {
 
     setBlockers(detectedBlockers);
 
-    // Save blockers to database
+    // Save blockers to database, replacing any left by an interrupted attempt
     if (testId) {
       try {
+        const { error: deleteError } = await supabase
+          .from("blockers_detected")
+          .delete()
+          .eq("test_id", testId);
+
+        if (deleteError) throw deleteError;
+
         const { error } = await supabase
           .from("blockers_detected")
           .insert(
@@ -235,7 +593,10 @@ export default function Diagnostic() {
               test_id: testId,
               blocker_name: b.blocker_name,
               error_count: b.error_count,
-              is_confirmed: false,
+              blocker_type: b.blocker_type,
+              confidence: b.confidence,
+              misconceptions: b.misconceptions,
+              is_confirmed: null,
             }))
           );
 
@@ -245,139 +606,163 @@ export default function Diagnostic() {
       }
     }
     
-    // Generate ALL confirmatory questions at once
+    // Generate ALL confirmatory questions at once, split across blockers in
+    // priority order within the item budget
+    const plan = planConfirmatoryPhase(detectedBlockers);
     setLoading(true);
     try {
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-confirmatory-test`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ age, blockerName: detectedBlockers[0].blocker_name }),
-        }
-      );
-
-      if (response.status === 429) {
-        toast({
-          variant: "destructive",
-          title: "Rate Limit Exceeded",
-          description: "Please wait a moment before continuing the confirmatory test.",
-        });
-        setLoading(false);
-        return;
-      }
-
-      if (!response.ok) throw new Error("Failed to generate confirmatory test");
-
-      const confirmatoryQuestions = await response.json();
-      setQuestions([...questions, ...confirmatoryQuestions]);
+      const confirmatoryQuestions = await requestConfirmatoryQuestions(plan, allResponses.length + 1);
+      const newQuestions = [...questions, ...confirmatoryQuestions];
+      setQuestions(newQuestions);
+      await saveQuestionSet(testId, newQuestions);
       setCurrentQuestion(allResponses.length);
       setStage("confirmatory");
       
       toast({
-        title: "Blocker Detected",
-        description: `We've identified potential difficulty with ${detectedBlockers[0].blocker_name}. Let's confirm with a few more questions.`,
-      });
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: error.message,
+        title: plan.length > 1 ? "Blockers Detected" : "Blocker Detected",
+        description: `We've identified potential difficulty with ${plan.map((p) => p.blocker_name).join(", ")}. Let's confirm with a few more questions.`,
       });
     } finally {
       setLoading(false);
     }
   };
 
-  const generateRoadmap = async (allResponses: any[]) => {
+  // Confirms or rejects each probed blocker on its own confirmatory items
+  const finishConfirmatory = async (allResponses: TestResponse[]) => {
+    // Confidence for accuracy blockers is refreshed with the confirmatory evidence
+    const deficits = estimateDeficits(allResponses, age!);
+    const misconceptions = summarizeMisconceptions(allResponses);
+    const evaluated = evaluateBlockers(blockers, allResponses.slice(mainTestLength), age!).map((b) => ({
+      ...b,
+      confidence: b.blocker_type === "accuracy" && deficits[b.blocker_name]
+        ? deficits[b.blocker_name].probability
+        : b.confidence,
+      misconceptions: misconceptions[b.blocker_name] ?? {},
+    }));
+    setBlockers(evaluated);
+
+    if (testId) {
+      try {
+        for (const b of evaluated) {
+          const { error } = await supabase
+            .from("blockers_detected")
+            .update({
+              is_confirmed: b.is_confirmed,
+              confirmatory_score: b.confirmatory_score,
+              confidence: b.confidence,
+              misconceptions: b.misconceptions,
+            })
+            .eq("test_id", testId)
+            .eq("blocker_name", b.blocker_name);
+
+          if (error) throw error;
+        }
+      } catch (error) {
+        console.error("Error saving blocker confirmation:", error);
+      }
+    }
+
+    await generateRoadmap(allResponses, evaluated);
+  };
+
+  const generateRoadmap = async (allResponses: TestResponse[], evaluatedBlockers: Blocker[] = blockers) => {
+    // Rejected blockers play no further part; unprobed ones stay as suspected
+    const activeBlockers = evaluatedBlockers.filter((b) => b.is_confirmed !== false);
+
+    // Steps already on screen are kept when the teacher retries an
+    // interrupted roadmap
+    let streamed: StreamedRoadmap = roadmap ?? { steps: [] };
+    let roadmapData: Roadmap | null = null;
+
     setLoading(true);
+    setRoadmapStatus("streaming");
     try {
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-roadmap`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ age, blockers, responses: allResponses }),
+      for (let attempt = 0; attempt <= MAX_STREAM_RESUMES && !roadmapData; attempt++) {
+        const response = await callFunction("generate-roadmap", {
+          testId,
+          age,
+          blockers: activeBlockers,
+          responses: allResponses,
+          partial: streamed.summary ? streamed : undefined,
+        });
+
+        if (!response.ok) throw await functionError(response, "generate-roadmap");
+
+        // The summary and each step are shown as soon as they arrive
+        try {
+          for await (const { event, data } of readEvents(response)) {
+            if (event === "summary") {
+              streamed = { ...streamed, ...(data as Omit<StreamedRoadmap, "steps">) };
+            } else if (event === "step") {
+              const step = parseRoadmapStep(data);
+              if (!step) continue;
+              streamed = {
+                ...streamed,
+                steps: [...streamed.steps.filter((s) => s.stepNumber !== step.stepNumber), step]
+                  .sort((a, b) => a.stepNumber - b.stepNumber),
+              };
+            } else if (event === "done") {
+              // generate-roadmap has saved it by now
+              const validation = validateRoadmap((data as { roadmap: unknown }).roadmap);
+              if (!validation.valid) throw new Error(`The roadmap was malformed: ${validation.reason}`);
+              roadmapData = validation.roadmap;
+            } else if (event === "error") {
+              throw new Error((data as { error: string }).error);
+            }
+
+            setRoadmap(roadmapData ?? streamed);
+            if (streamed.summary) setStage("roadmap");
+          }
+        } catch (error) {
+          // Only a dropped connection is picked up again; anything else is
+          // for the teacher to see
+          if (!(error instanceof StreamInterruptedError)) throw error;
         }
-      );
+      }
 
-      if (response.status === 429) {
-        toast({
-          variant: "destructive",
-          title: "Rate Limit Exceeded",
-          description: "Please wait before generating the roadmap.",
-        });
-        setLoading(false);
+      if (!roadmapData) {
+        setRoadmapStatus("interrupted");
+        if (!streamed.summary) throw new Error("Failed to generate roadmap");
         return;
       }
 
-      if (!response.ok) throw new Error("Failed to generate roadmap");
-
-      const roadmapData = await response.json();
-      setRoadmap(roadmapData);
-
-      // Save roadmap to database
       if (testId) {
-        const { error: roadmapError } = await supabase
-          .from("remediation_roadmaps")
-          .insert({
-            test_id: testId,
-            roadmap_data: roadmapData,
-          });
-
-        if (roadmapError) throw roadmapError;
-
         // Calculate overall severity
         const errorRate = allResponses.filter(r => !r.isCorrect).length / allResponses.length;
         let severity: "none" | "mild" | "moderate" | "severe" = "none";
-        if (blockers.length >= 3 || errorRate > 0.6) severity = "severe";
-        else if (blockers.length >= 2 || errorRate > 0.4) severity = "moderate";
-        else if (blockers.length >= 1 || errorRate > 0.2) severity = "mild";
-
-        // Mark test as completed
-        const { error: testError } = await supabase
-          .from("diagnostic_tests")
-          .update({ 
-            status: "completed", 
-            completed_at: new Date().toISOString(),
-            overall_severity: severity,
-          })
-          .eq("id", testId);
+        if (activeBlockers.length >= 3 || errorRate > 0.6) severity = "severe";
+        else if (activeBlockers.length >= 2 || errorRate > 0.4) severity = "moderate";
+        else if (activeBlockers.length >= 1 || errorRate > 0.2) severity = "mild";
+
+        // Mark test as completed; only the server may change a test's status
+        const { error: testError } = await supabase.rpc("complete_diagnostic_test", {
+          p_test_id: testId,
+          p_overall_severity: severity,
+        });
 
         if (testError) throw testError;
-
-        // Confirm blockers
-        if (blockers.length > 0) {
-          const { error: blockerError } = await supabase
-            .from("blockers_detected")
-            .update({ is_confirmed: true })
-            .eq("test_id", testId);
-
-          if (blockerError) throw blockerError;
-        }
       }
 
+      setRoadmapStatus("complete");
       setStage("roadmap");
 
       toast({
         title: "Assessment Complete!",
         description: "Your personalized roadmap is ready.",
       });
-    } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: error.message,
-      });
+    } catch (error) {
+      // A roadmap that was saved is not written again
+      if (!roadmapData) setRoadmapStatus("failed");
+      throw error;
     } finally {
       setLoading(false);
     }
   };
 
   const progress = stage === "main-test" 
-    ? (responses.length / MAIN_TEST_LENGTH) * 100
+    ? (responses.length / catConfig.maxLength) * 100
     : stage === "confirmatory"
-    ? ((responses.length - MAIN_TEST_LENGTH) / CONFIRMATORY_LENGTH) * 100
+    ? ((responses.length - mainTestLength) / (questions.length - mainTestLength)) * 100
     : 0;
 
   return (
@@ -388,6 +773,15 @@ export default function Diagnostic() {
           <h1 className="text-3xl font-bold">NeuroMath AI Diagnostic</h1>
         </div>
 
+        {stage === "resuming" && (
+          <Card className="shadow-lg">
+            <CardContent className="py-12 text-center space-y-4">
+              <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto" />
+              <p className="text-muted-foreground">Restoring assessment...</p>
+            </CardContent>
+          </Card>
+        )}
+
         {stage === "age" && (
           <Card className="shadow-lg">
             <CardHeader>
@@ -446,11 +840,14 @@ export default function Diagnostic() {
             <div className="space-y-2">
               <div className="flex justify-between text-sm text-muted-foreground">
                 <span>
-                  {stage === "main-test" ? "Main Test" : "Confirmatory Test"}
+                  {stage === "main-test"
+                    ? "Main Test"
+                    : `Confirmatory Test: ${questions[currentQuestion]?.construct ?? ""}`}
                 </span>
                 <span>
-                  Question {stage === "main-test" ? currentQuestion + 1 : currentQuestion - MAIN_TEST_LENGTH + 1} of{" "}
-                  {stage === "main-test" ? MAIN_TEST_LENGTH : CONFIRMATORY_LENGTH}
+                  {stage === "main-test"
+                    ? `Question ${currentQuestion + 1} of up to ${catConfig.maxLength}`
+                    : `Question ${currentQuestion - mainTestLength + 1} of ${questions.length - mainTestLength}`}
                 </span>
               </div>
               <Progress value={progress} className="h-2" />
@@ -463,18 +860,15 @@ export default function Diagnostic() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="answer">Your Answer</Label>
-                  <Input
-                    id="answer"
-                    type="text"
-                    placeholder="Type your answer here"
+                {questions[currentQuestion] && (
+                  <ItemInput
+                    key={currentQuestion}
+                    question={questions[currentQuestion]}
                     value={userAnswer}
-                    onChange={(e) => setUserAnswer(e.target.value)}
-                    onKeyPress={(e) => e.key === "Enter" && handleAnswerSubmit()}
-                    autoFocus
+                    onChange={handleAnswerChange}
+                    onSubmit={handleAnswerSubmit}
                   />
-                </div>
+                )}
                 <Button onClick={handleAnswerSubmit} className="w-full" disabled={loading}>
                   {loading ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
                   Submit Answer
@@ -491,8 +885,12 @@ export default function Diagnostic() {
                 <div className="flex items-center gap-3">
                   <CheckCircle2 className="w-8 h-8 text-success" />
                   <div>
-                    <CardTitle>Assessment Complete!</CardTitle>
-                    <CardDescription>Here's your personalized remediation roadmap</CardDescription>
+                    <CardTitle>{roadmapStatus === "complete" ? "Assessment Complete!" : "Preparing Roadmap"}</CardTitle>
+                    <CardDescription>
+                      {roadmapStatus === "complete"
+                        ? "Here's your personalized remediation roadmap"
+                        : "Your personalized remediation roadmap is being written"}
+                    </CardDescription>
                   </div>
                 </div>
               </CardHeader>
@@ -503,30 +901,33 @@ export default function Diagnostic() {
                 </div>
 
                 <div className="space-y-4">
-                  <h3 className="font-bold text-xl">5-Step Action Roadmap</h3>
-                  {roadmap.steps.map((step: any) => (
-                    <Card key={step.stepNumber} className="border-l-4 border-l-primary">
-                      <CardHeader>
-                        <CardTitle className="text-lg">
-                          Step {step.stepNumber}: {step.title}
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent className="space-y-3">
-                        <div>
-                          <p className="font-semibold text-sm text-muted-foreground mb-1">Execution Plan:</p>
-                          <p className="text-sm">{step.executionPlan}</p>
-                        </div>
-                        <div>
-                          <p className="font-semibold text-sm text-muted-foreground mb-1">Resources:</p>
-                          <ul className="list-disc list-inside space-y-1">
-                            {step.resources.map((resource: string, idx: number) => (
-                              <li key={idx} className="text-sm">{resource}</li>
-                            ))}
-                          </ul>
-                        </div>
-                      </CardContent>
-                    </Card>
+                  <h3 className="font-bold text-xl">
+                    {roadmap.steps.length > 0 && `${roadmap.steps.length}-Step `}Action Roadmap
+                  </h3>
+                  {roadmap.steps.map((step) => (
+                    <RoadmapStepCard key={step.stepNumber} step={step} />
                   ))}
+
+                  {roadmapStatus === "streaming" && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Writing step {roadmap.steps.length + 1}...
+                    </div>
+                  )}
+
+                  {(roadmapStatus === "interrupted" || roadmapStatus === "failed") && (
+                    <div className="rounded-lg border border-destructive/50 p-4 space-y-3">
+                      <p className="text-sm">
+                        {roadmapStatus === "interrupted" ? "The connection dropped" : "The roadmap stopped"} after{" "}
+                        {roadmap.steps.length} {roadmap.steps.length === 1 ? "step" : "steps"}. The steps above are kept; the
+                        rest can be written now.
+                      </p>
+                      <Button onClick={() => generateRoadmap(responses).catch(showError)} variant="outline" disabled={loading}>
+                        {loading ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+                        Finish Roadmap
+                      </Button>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex gap-4">
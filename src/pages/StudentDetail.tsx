@@ -0,0 +1,336 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Brain, Clock, Play } from "lucide-react";
+import { validateRoadmap, type Roadmap } from "@shared/roadmap";
+import { ProvenanceDialog } from "@/components/dashboard/ProvenanceDialog";
+import { RoadmapEditorDialog } from "@/components/dashboard/RoadmapEditorDialog";
+import { RoadmapStepCard } from "@/components/roadmap/RoadmapStepCard";
+import { TestResponsesTable, type TestResponseRow } from "@/components/student/TestResponsesTable";
+import { ProgressCharts, type Intervention } from "@/components/student/ProgressCharts";
+import type { FluencyByConstruct } from "@/lib/fluency";
+import type { AbilityEstimates } from "@/lib/irt";
+
+interface Student {
+  id: string;
+  name: string;
+  age: number;
+}
+
+interface Blocker {
+  id: string;
+  blocker_name: string;
+  blocker_type: string;
+  error_count: number;
+  confidence: number | null;
+  is_confirmed: boolean | null;
+  confirmatory_score: number | null;
+}
+
+interface TestHistoryEntry {
+  id: string;
+  status: string | null;
+  overall_severity: string | null;
+  age_at_test: number;
+  created_at: string;
+  completed_at: string | null;
+  ability_estimates: AbilityEstimates | null;
+  fluency_metrics: FluencyByConstruct | null;
+  blockers: Blocker[];
+  responses: TestResponseRow[];
+  roadmap: Roadmap | null;
+  // Why a saved roadmap that does not match the roadmap contract could not be read
+  roadmapError: string | null;
+}
+
+function severityVariant(severity: string): "destructive" | "default" | "secondary" {
+  return severity === "severe" ? "destructive" : severity === "moderate" ? "default" : "secondary";
+}
+
+// Everything recorded for one student: each diagnostic test with its
+// blockers, every answer and the full roadmap
+export default function StudentDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [student, setStudent] = useState<Student | null>(null);
+  const [tests, setTests] = useState<TestHistoryEntry[]>([]);
+  const [interventions, setInterventions] = useState<Intervention[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadStudent = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data: studentRow, error: studentError } = await supabase
+        .from("students")
+        .select("id, name, age")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (studentError) throw new Error(studentError.message);
+      if (!studentRow) {
+        setStudent(null);
+        return;
+      }
+
+      const { data: testRows, error: testsError } = await supabase
+        .from("diagnostic_tests")
+        .select("id, status, overall_severity, age_at_test, created_at, completed_at, ability_estimates, fluency_metrics")
+        .eq("student_id", studentRow.id)
+        .order("created_at", { ascending: false });
+
+      if (testsError) throw new Error(testsError.message);
+      const testIds = (testRows || []).map((t) => t.id);
+
+      const [blockersResult, responsesResult, roadmapsResult] = await Promise.all([
+        supabase
+          .from("blockers_detected")
+          .select("id, test_id, blocker_name, blocker_type, error_count, confidence, is_confirmed, confirmatory_score")
+          .in("test_id", testIds),
+        supabase
+          .from("test_responses")
+          .select("id, test_id, question_number, question_text, user_answer, correct_answer, construct_tested, difficulty_level, is_correct, misconception, readability_grade")
+          .in("test_id", testIds)
+          .order("question_number", { ascending: true }),
+        supabase
+          .from("remediation_roadmaps")
+          .select("id, test_id, roadmap_data")
+          .in("test_id", testIds),
+      ]);
+
+      if (blockersResult.error) throw new Error(blockersResult.error.message);
+      if (responsesResult.error) throw new Error(responsesResult.error.message);
+      if (roadmapsResult.error) throw new Error(roadmapsResult.error.message);
+
+      // Every version of every roadmap marks an intervention on the progress charts
+      const roadmapIds = (roadmapsResult.data || []).map((r) => r.id);
+      const { data: revisions, error: revisionsError } = await supabase
+        .from("roadmap_revisions")
+        .select("version, source, created_at")
+        .in("roadmap_id", roadmapIds)
+        .order("created_at", { ascending: true });
+
+      if (revisionsError) throw new Error(revisionsError.message);
+
+      const roadmapsByTest: Record<string, Roadmap> = {};
+      const roadmapErrors: Record<string, string> = {};
+      for (const row of roadmapsResult.data || []) {
+        const validation = validateRoadmap(row.roadmap_data);
+        if (validation.valid) roadmapsByTest[row.test_id] = validation.roadmap;
+        else roadmapErrors[row.test_id] = validation.reason;
+      }
+
+      setStudent(studentRow);
+      setInterventions((revisions || []).filter((r) => r.created_at).map((r) => ({
+        date: r.created_at,
+        label: r.version === 1 ? "Roadmap" : `Roadmap v${r.version}${r.source === "feedback" ? " (feedback)" : ""}`,
+      })));
+      setTests((testRows || []).map((test) => ({
+        ...test,
+        ability_estimates: test.ability_estimates as unknown as AbilityEstimates | null,
+        fluency_metrics: test.fluency_metrics as unknown as FluencyByConstruct | null,
+        blockers: (blockersResult.data || []).filter((b) => b.test_id === test.id),
+        responses: (responsesResult.data || []).filter((r) => r.test_id === test.id),
+        roadmap: roadmapsByTest[test.id] ?? null,
+        roadmapError: roadmapErrors[test.id] ?? null,
+      })));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the student",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, toast]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      loadStudent();
+    });
+  }, [navigate, loadStudent]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-primary/5 to-accent/5">
+      <header className="border-b border-border/50 bg-card/30 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Button>
+            <Brain className="w-8 h-8 text-primary" />
+            <h1 className="text-2xl font-bold">{student ? student.name : "Student"}</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {loading ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">Loading student...</p>
+            </CardContent>
+          </Card>
+        ) : !student ? (
+          <Card className="border-dashed">
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">This student was not found.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div>
+              <h2 className="text-3xl font-bold mb-2">{student.name}</h2>
+              <p className="text-muted-foreground">
+                Age {student.age} · {tests.length} diagnostic {tests.length === 1 ? "test" : "tests"}
+              </p>
+            </div>
+
+            {tests.some((t) => t.status === "completed") && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Progress by Construct</CardTitle>
+                  <CardDescription>How each construct has moved across completed tests</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ProgressCharts tests={tests.filter((t) => t.status === "completed")} interventions={interventions} />
+                </CardContent>
+              </Card>
+            )}
+
+            {tests.length === 0 ? (
+              <Card className="border-dashed">
+                <CardContent className="py-12 text-center">
+                  <p className="text-muted-foreground">No tests yet</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Accordion type="multiple" defaultValue={[tests[0].id]} className="space-y-4">
+                {tests.map((test) => (
+                  <AccordionItem key={test.id} value={test.id} className="border-none">
+                    <Card>
+                      <CardHeader className="py-0">
+                        <AccordionTrigger className="hover:no-underline">
+                          <div className="flex flex-wrap items-center gap-3 text-left">
+                            <div>
+                              <CardTitle className="text-lg">
+                                {new Date(test.created_at).toLocaleDateString()}
+                              </CardTitle>
+                              <CardDescription>
+                                Age {test.age_at_test} · {test.responses.length} answers
+                              </CardDescription>
+                            </div>
+                            <Badge variant={test.status === "completed" ? "default" : "outline"}>
+                              {test.status === "completed" ? "Completed" : "In Progress"}
+                            </Badge>
+                            {test.overall_severity && (
+                              <Badge variant={severityVariant(test.overall_severity)}>
+                                {test.overall_severity}
+                              </Badge>
+                            )}
+                            {test.blockers.filter((b) => b.is_confirmed !== false).map((blocker) => (
+                              <Badge key={blocker.id} variant="outline" className="text-xs">
+                                {blocker.blocker_type === "fluency" && <Clock className="w-3 h-3 mr-1" />}
+                                {blocker.blocker_name}
+                                {blocker.is_confirmed && " ✓"}
+                              </Badge>
+                            ))}
+                          </div>
+                        </AccordionTrigger>
+                      </CardHeader>
+                      <AccordionContent>
+                        <CardContent className="space-y-4">
+                          {test.status === "in_progress" && (
+                            <Button variant="outline" size="sm" onClick={() => navigate(`/diagnostic/${test.id}`)}>
+                              <Play className="w-4 h-4 mr-2" />
+                              Resume Assessment
+                            </Button>
+                          )}
+
+                          {test.blockers.length > 0 && (
+                            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                              {test.blockers.map((blocker) => (
+                                <div
+                                  key={blocker.id}
+                                  className={`rounded border border-border p-2 text-xs ${blocker.is_confirmed === false ? "text-muted-foreground line-through" : ""}`}
+                                >
+                                  <div className="font-medium text-sm">{blocker.blocker_name}</div>
+                                  <div>
+                                    {blocker.blocker_type === "fluency" ? "Slow retrieval" : `${blocker.error_count} errors`}
+                                    {blocker.confidence !== null && ` · ${Math.round(blocker.confidence * 100)}% confidence`}
+                                  </div>
+                                  <div>
+                                    {blocker.is_confirmed === null
+                                      ? "Not probed in the confirmatory phase"
+                                      : blocker.is_confirmed
+                                        ? "Confirmed"
+                                        : "Rejected"}
+                                    {blocker.confirmatory_score !== null &&
+                                      ` (${Math.round(blocker.confirmatory_score * 100)}% correct on confirmatory items)`}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+
+                          <Tabs defaultValue="responses">
+                            <TabsList>
+                              <TabsTrigger value="responses">Answers</TabsTrigger>
+                              <TabsTrigger value="roadmap">Roadmap</TabsTrigger>
+                            </TabsList>
+
+                            <TabsContent value="responses">
+                              <TestResponsesTable responses={test.responses} />
+                            </TabsContent>
+
+                            <TabsContent value="roadmap" className="space-y-4">
+                              {test.roadmap ? (
+                                <>
+                                  <div>
+                                    <h3 className="font-semibold">Overall Severity: {test.roadmap.overallSeverity}</h3>
+                                    <p className="text-sm text-muted-foreground">{test.roadmap.summary}</p>
+                                  </div>
+                                  {test.roadmap.steps.map((step) => (
+                                    <RoadmapStepCard key={step.stepNumber} step={step} />
+                                  ))}
+                                  <div className="flex gap-2">
+                                    <RoadmapEditorDialog studentName={student.name} testId={test.id} onSaved={loadStudent} />
+                                    <ProvenanceDialog studentName={student.name} tests={[test]} />
+                                  </div>
+                                </>
+                              ) : test.roadmapError ? (
+                                <div className="rounded-lg border border-destructive/50 p-4 space-y-1">
+                                  <p className="text-sm font-medium text-destructive">This roadmap could not be read</p>
+                                  <p className="text-sm text-muted-foreground">{test.roadmapError}</p>
+                                </div>
+                              ) : (
+                                <p className="text-sm text-muted-foreground">No roadmap for this test</p>
+                              )}
+                            </TabsContent>
+                          </Tabs>
+                        </CardContent>
+                      </AccordionContent>
+                    </Card>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
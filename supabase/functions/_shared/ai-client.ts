@@ -0,0 +1,197 @@
+// Client for the model provider shared by the edge functions (see
+// llm-providers.ts for how the provider is chosen). Requests time out,
+// transient failures (rate limits, 5xx, network errors, timeouts) are retried
+// with exponential backoff, and JSON responses are parsed and checked against
+// a zod schema. Output that fails to parse or validate is sent back to the
+// model with the problems listed so it can repair it.
+
+import type { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import { getProvider, modelFor, ProviderError, type ChatMessage, type LLMProvider, type RequestHint } from "./llm-providers.ts";
+
+export type { ChatMessage, RequestHint };
+
+export interface CompletionOptions {
+  // Defaults to LLM_MODEL or the provider's own default
+  model?: string;
+  // Per request, not counting retries
+  timeoutMs?: number;
+  // Retries after the first request for transient failures
+  maxRetries?: number;
+  // Ask for a single JSON object as the whole response
+  jsonMode?: boolean;
+  temperature?: number;
+  hint?: RequestHint;
+}
+
+export interface JsonCompletionOptions extends CompletionOptions {
+  // Rounds of sending malformed output back to be fixed
+  repairAttempts?: number;
+}
+
+export interface JsonCompletion<T> {
+  data: T;
+  // The model output the data was read from, for logging rejections
+  raw: string;
+}
+
+// The provider refused the request. 429 and 402 are passed on to the caller
+// as they are; other statuses mean the provider failed.
+export class AIGatewayError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "AIGatewayError";
+  }
+}
+
+// The model did not produce valid output, even after repair
+export class AIOutputError extends Error {
+  constructor(message: string, readonly raw: string) {
+    super(message);
+    this.name = "AIOutputError";
+  }
+}
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+
+function isTransient(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function backoffDelay(attempt: number, retryAfterHeader: string | null): number {
+  const retryAfter = Number(retryAfterHeader);
+  if (retryAfterHeader && Number.isFinite(retryAfter)) return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+  // Full jitter keeps concurrent retries from arriving together
+  return Math.random() * Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Waits before the next attempt if the failure is worth retrying, otherwise
+// throws it as the error callers handle
+async function retryOrThrow(provider: LLMProvider, error: unknown, attempt: number, maxRetries: number): Promise<void> {
+  // Timeouts and dropped connections are retried like transient statuses
+  const transient = !(error instanceof ProviderError) || isTransient(error.status);
+  if (transient && attempt < maxRetries) {
+    console.warn(`${provider.name} request failed, retrying (${attempt + 1}/${maxRetries}):`, error);
+    await sleep(backoffDelay(attempt, error instanceof ProviderError ? error.retryAfter : null));
+    return;
+  }
+
+  if (!(error instanceof ProviderError)) throw error;
+  console.error(`${provider.name} error:`, error.status, error.message);
+  if (error.status === 429) throw new AIGatewayError("Rate limit exceeded. Please try again later.", 429);
+  if (error.status === 402) throw new AIGatewayError("Payment required. Please add credits to your workspace.", 402);
+  throw new AIGatewayError(`${provider.name} error`, error.status);
+}
+
+// The text of one chat completion
+export async function complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+  const provider = getProvider();
+  const { model = modelFor(provider), timeoutMs = 30000, maxRetries = 3, jsonMode = false, temperature, hint } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.complete({ model, messages, jsonMode, temperature, hint, signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error) {
+      await retryOrThrow(provider, error, attempt, maxRetries);
+    }
+  }
+}
+
+// The text of one chat completion as it is generated. Failures before the
+// first piece arrives are retried; after that they are thrown, since a retry
+// would repeat text the caller has already used.
+export async function* streamText(messages: ChatMessage[], options: CompletionOptions = {}): AsyncGenerator<string> {
+  const provider = getProvider();
+  const { model = modelFor(provider), timeoutMs = 120000, maxRetries = 3, temperature, hint } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    let started = false;
+    try {
+      for await (const piece of provider.stream({ model, messages, jsonMode: false, temperature, hint, signal: AbortSignal.timeout(timeoutMs) })) {
+        started = true;
+        yield piece;
+      }
+      return;
+    } catch (error) {
+      if (started) throw error;
+      await retryOrThrow(provider, error, attempt, maxRetries);
+    }
+  }
+}
+
+// The first complete JSON value in the text, scanning brackets outside
+// strings so nested objects and trailing prose are handled
+function findJson(text: string): string | null {
+  const start = text.search(/[[{]/);
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{" || ch === "[") {
+      stack.push(ch === "{" ? "}" : "]");
+    } else if (ch === "}" || ch === "]") {
+      if (stack.pop() !== ch) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+// Parses model output that may be wrapped in a code fence or prose
+export function extractJson(content: string): unknown {
+  const text = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(text);
+  } catch {
+    const json = findJson(text);
+    if (json === null) throw new Error("no JSON value in the output");
+    return JSON.parse(json);
+  }
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
+
+// A completion parsed and validated against the schema
+export async function completeJson<T>(
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: JsonCompletionOptions = {}
+): Promise<JsonCompletion<T>> {
+  const { repairAttempts = 2, ...completionOptions } = options;
+  const conversation = [...messages];
+
+  for (let round = 0; ; round++) {
+    const raw = await complete(conversation, { jsonMode: true, ...completionOptions });
+
+    let problem: string;
+    try {
+      const parsed = schema.safeParse(extractJson(raw));
+      if (parsed.success) return { data: parsed.data, raw };
+      problem = `it does not match the required structure: ${describeIssues(parsed.error)}`;
+    } catch (error) {
+      problem = `it is not valid JSON (${error instanceof Error ? error.message : String(error)})`;
+    }
+
+    if (round >= repairAttempts) throw new AIOutputError(`Model output rejected: ${problem}`, raw);
+    console.warn(JSON.stringify({ event: "output-repair", round: round + 1, problem }));
+
+    conversation.push(
+      { role: "assistant", content: raw },
+      { role: "user", content: `Your previous response could not be used because ${problem}. Reply again with ONLY the corrected JSON.` }
+    );
+  }
+}
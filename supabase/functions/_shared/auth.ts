@@ -0,0 +1,44 @@
+// Every function is called by a signed-in teacher. The gateway checks that a
+// JWT is present; these helpers resolve it to a teacher and check that the
+// test being worked on belongs to one of their students.
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface TestRecord {
+  id: string;
+  age_at_test: number;
+  status: string | null;
+}
+
+export function createAdminClient(): SupabaseClient {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceRoleKey) {
+    throw new Error("SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not configured");
+  }
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+}
+
+// The id of the signed-in user, or null for the anon key or a bad token
+export async function authenticateTeacher(req: Request, admin: SupabaseClient): Promise<string | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  const { data: { user }, error } = await admin.auth.getUser(token);
+  return error || !user ? null : user.id;
+}
+
+// The test, if it belongs to one of the teacher's students
+export async function authorizeTest(admin: SupabaseClient, teacherId: string, testId: string): Promise<TestRecord | null> {
+  if (!testId) return null;
+
+  const { data: test, error } = await admin
+    .from("diagnostic_tests")
+    .select("id, age_at_test, status, students!inner(teacher_id)")
+    .eq("id", testId)
+    .eq("students.teacher_id", teacherId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return test as TestRecord | null;
+}
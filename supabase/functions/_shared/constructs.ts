@@ -0,0 +1,15 @@
+// The mathematical constructs the diagnostic assesses. Keep this list in sync
+// with the construct descriptions in the question prompt (prompts.ts).
+export const CONSTRUCTS = [
+  "Number Sense",
+  "Place Value",
+  "Basic Arithmetic",
+  "Pattern Recognition",
+  "Spatial Reasoning",
+  "Working Memory",
+] as const;
+
+export type Construct = (typeof CONSTRUCTS)[number];
+
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 5;
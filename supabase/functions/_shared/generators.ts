@@ -0,0 +1,398 @@
+import type { Construct } from "./constructs.ts";
+import { MAX_DOTS, ORDER_SEPARATOR, parseQuestion, type Question } from "./items.ts";
+import { logRejection } from "./item-validation.ts";
+import { hashSeed, pick, randomInt, seededRandom, shuffle, type Rng } from "./random.ts";
+import { checkReading } from "./readability.ts";
+
+// Procedural item generators, one per construct. Items are built from a seed,
+// so the same test seed and the same answers always reproduce the same test
+// form, and the answer keys are computed rather than generated. The edge
+// functions use them when the AI service is unavailable, or for every item
+// when ITEM_SOURCE is "local".
+
+// Item content without the construct and difficulty, which the caller sets
+type ItemContent = Record<string, unknown> & { questionText: string; correctAnswer: string };
+
+// Difficulty levels are relative to the child's age. A tier combines the two
+// on one scale: a 6-year-old at level 1 is tier 1, a 12-year-old at level 5
+// is tier 11.
+const MIN_TIER_AGE = 6;
+const MAX_TIER = 11;
+
+function tierFor(age: number, difficultyLevel: number): number {
+  return Math.min(MAX_TIER, Math.max(1, Math.min(6, Math.max(0, age - MIN_TIER_AGE)) + difficultyLevel));
+}
+
+function formatNumber(n: number): string {
+  return n >= 10000 ? n.toLocaleString("en-US") : String(n);
+}
+
+// The answer plus plausible wrong answers a child might give
+function numericOptions(rng: Rng, answer: number, count = 4): string[] {
+  const reversed = Number(String(answer).split("").reverse().join(""));
+  const candidates = shuffle(rng, [answer + 1, answer - 1, answer + 2, answer - 2, answer + 10, answer - 10, reversed])
+    .filter((n, i, all) => n >= 0 && n !== answer && all.indexOf(n) === i);
+  return shuffle(rng, [answer, ...candidates.slice(0, count - 1)]).map(String);
+}
+
+function numberSense(rng: Rng, tier: number): ItemContent {
+  const kind = tier <= 3 ? pick(rng, ["dots", "dots", "compare"]) : pick(rng, ["compare", "compare", "ordering", "number-line"]);
+
+  if (kind === "dots") {
+    // Ratios move towards 1 as the tier rises, which makes the sets harder to tell apart
+    const ratio = [2, 1.5, 1.33][tier - 1] ?? 1.25;
+    const smaller = randomInt(rng, 3, Math.floor(MAX_DOTS / ratio));
+    const larger = Math.min(MAX_DOTS, Math.max(smaller + 1, Math.round(smaller * ratio)));
+    const [leftCount, rightCount] = rng() < 0.5 ? [smaller, larger] : [larger, smaller];
+    return {
+      itemType: "dot-comparison",
+      questionText: "Which box has more dots?",
+      correctAnswer: leftCount > rightCount ? "left" : "right",
+      leftCount,
+      rightCount,
+      ask: "more",
+    };
+  }
+
+  const magnitude = 10 ** Math.min(4, 1 + Math.floor(tier / 3));
+
+  if (kind === "number-line") {
+    const max = tier <= 6 ? 100 : 1000;
+    const target = randomInt(rng, 1, max - 1);
+    return {
+      itemType: "number-line",
+      questionText: `Where does ${target} go on this number line?`,
+      correctAnswer: String(target),
+      min: 0,
+      max,
+      target,
+    };
+  }
+
+  if (kind === "ordering") {
+    const count = Math.min(5, 3 + Math.floor(tier / 4));
+    const numbers = new Set<number>();
+    while (numbers.size < count) numbers.add(randomInt(rng, 1, magnitude - 1));
+    const sorted = [...numbers].sort((a, b) => a - b);
+    return {
+      itemType: "ordering",
+      questionText: "Put these numbers in order from smallest to largest.",
+      correctAnswer: sorted.map(formatNumber).join(ORDER_SEPARATOR),
+      items: shuffle(rng, sorted).map(formatNumber),
+      correctOrder: sorted.map(formatNumber),
+    };
+  }
+
+  // Decimals that look bigger because they have more digits (0.45 vs 0.5)
+  if (tier >= 9 && rng() < 0.5) {
+    const tenths = randomInt(rng, 2, 8);
+    const hundredths = (tenths - 1) * 10 + randomInt(rng, 1, 9);
+    const options = shuffle(rng, [`0.${tenths}`, `0.${hundredths}`]);
+    return {
+      itemType: "multiple-choice",
+      questionText: `Which number is larger: ${options[0]} or ${options[1]}?`,
+      correctAnswer: `0.${tenths}`,
+      options,
+    };
+  }
+
+  const count = tier <= 4 ? 2 : 4;
+  const numbers = new Set<number>();
+  const base = randomInt(rng, magnitude / 10, magnitude - 1);
+  // Close numbers are harder to compare
+  const spread = Math.max(count + 1, Math.round(magnitude / (tier + 2)));
+  while (numbers.size < count) numbers.add(Math.max(1, base + randomInt(rng, -spread, spread)));
+  const options = shuffle(rng, [...numbers]).map(formatNumber);
+  return {
+    itemType: "multiple-choice",
+    questionText: count === 2 ? "Which number is larger?" : "Which number is the largest?",
+    correctAnswer: formatNumber(Math.max(...numbers)),
+    options,
+  };
+}
+
+const PLACE_NAMES = [
+  ["one", "ones"],
+  ["ten", "tens"],
+  ["hundred", "hundreds"],
+  ["thousand", "thousands"],
+  ["ten thousand", "ten thousands"],
+  ["hundred thousand", "hundred thousands"],
+];
+
+function placeValue(rng: Rng, tier: number): ItemContent {
+  const digits = Math.min(6, Math.max(2, 1 + Math.ceil(tier / 2)));
+  const digitList = Array.from({ length: digits }, (_, i) => randomInt(rng, i === 0 ? 1 : 0, 9));
+  const n = Number(digitList.join(""));
+
+  if (rng() < 0.5) {
+    // Ask about a non-zero digit that appears only once, so "the 4" is unambiguous
+    const positions = digitList
+      .map((d, i) => ({ d, place: digits - 1 - i }))
+      .filter(({ d }) => d !== 0 && digitList.filter((x) => x === d).length === 1);
+    if (positions.length > 0) {
+      const { d, place } = pick(rng, positions);
+      return {
+        itemType: "free-text",
+        questionText: `What is the value of the digit ${d} in ${formatNumber(n)}?`,
+        correctAnswer: String(d * 10 ** place),
+      };
+    }
+  }
+
+  const parts = digitList
+    .map((d, i) => ({ d, place: digits - 1 - i }))
+    .filter(({ d }) => d !== 0)
+    .map(({ d, place }) => `${d} ${PLACE_NAMES[place][d === 1 ? 0 : 1]}`);
+  // Parts are listed out of order at higher tiers
+  const listed = tier >= 6 ? shuffle(rng, parts) : parts;
+  const text = listed.length > 1 ? `${listed.slice(0, -1).join(", ")} and ${listed[listed.length - 1]}` : listed[0];
+  return {
+    itemType: "free-text",
+    questionText: `What number is made of ${text}?`,
+    correctAnswer: String(n),
+  };
+}
+
+function basicArithmetic(rng: Rng, tier: number): ItemContent {
+  let left: number;
+  let right: number;
+  let operator: "+" | "-" | "×" | "÷";
+
+  switch (tier) {
+    case 1:
+      operator = "+"; left = randomInt(rng, 1, 5); right = randomInt(rng, 1, 5);
+      break;
+    case 2:
+      operator = pick(rng, ["+", "-"]); left = randomInt(rng, 5, 10); right = randomInt(rng, 1, 9);
+      break;
+    case 3:
+      operator = pick(rng, ["+", "-"]); left = randomInt(rng, 2, 8) * 10 + randomInt(rng, 5, 9); right = randomInt(rng, 1, 4);
+      break;
+    case 4:
+      operator = pick(rng, ["+", "-"]); left = randomInt(rng, 5, 9) * 10 + randomInt(rng, 5, 9); right = randomInt(rng, 1, 4) * 10 + randomInt(rng, 1, 4);
+      break;
+    case 5:
+      // Regrouping: the ones column carries or borrows
+      operator = pick(rng, ["+", "-"]); left = randomInt(rng, 3, 8) * 10 + randomInt(rng, 1, 4); right = randomInt(rng, 1, 2) * 10 + randomInt(rng, 6, 9);
+      break;
+    case 6:
+      operator = "×"; left = randomInt(rng, 2, 5); right = randomInt(rng, 2, 10);
+      break;
+    case 7:
+      operator = pick(rng, ["×", "-"]);
+      [left, right] = operator === "×"
+        ? [randomInt(rng, 3, 10), randomInt(rng, 3, 10)]
+        : [randomInt(rng, 3, 9) * 100 + randomInt(rng, 0, 40), randomInt(rng, 100, 299)];
+      break;
+    case 8:
+      operator = "÷"; right = randomInt(rng, 2, 10); left = right * randomInt(rng, 2, 10);
+      break;
+    case 9:
+      operator = "×"; left = randomInt(rng, 12, 49); right = randomInt(rng, 3, 9);
+      break;
+    case 10:
+      operator = pick(rng, ["×", "÷"]);
+      if (operator === "×") {
+        left = randomInt(rng, 12, 35); right = randomInt(rng, 11, 25);
+      } else {
+        right = randomInt(rng, 11, 25); left = right * randomInt(rng, 3, 12);
+      }
+      break;
+    default: {
+      // Fractions with a common denominator
+      const denominator = randomInt(rng, 5, 12);
+      const a = randomInt(rng, 1, denominator - 2);
+      const b = randomInt(rng, 1, denominator - 1 - a);
+      return { itemType: "free-text", questionText: `What is ${a}/${denominator} + ${b}/${denominator}?`, correctAnswer: `${a + b}/${denominator}` };
+    }
+  }
+
+  // Keep differences positive
+  if (operator === "-" && right > left) [left, right] = [right, left];
+
+  const answer = { "+": left + right, "-": left - right, "×": left * right, "÷": left / right }[operator];
+  const questionText = `What is ${left} ${operator} ${right}?`;
+
+  // The youngest children choose rather than type
+  if (tier <= 2) {
+    return { itemType: "multiple-choice", questionText, correctAnswer: String(answer), options: numericOptions(rng, answer) };
+  }
+  return { itemType: "free-text", questionText, correctAnswer: String(answer) };
+}
+
+function patternRecognition(rng: Rng, tier: number): ItemContent {
+  let terms: number[];
+
+  if (tier <= 8 || rng() < 0.5) {
+    const maxStep = [1, 2, 5, 5, 10, 10, 25, 25][tier - 1] ?? 50;
+    const step = randomInt(rng, 1, maxStep);
+    const descending = tier >= 4 && rng() < 0.4;
+
+    // From tier 6 the step itself grows by one each time
+    const growing = tier >= 6 && rng() < 0.4;
+    const deltas = Array.from({ length: 5 }, (_, i) => (growing ? step + i : step));
+
+    // A descending sequence starts high enough that no term, the blank
+    // included, drops below zero
+    const total = deltas.reduce((sum, delta) => sum + delta, 0);
+    const start = descending ? randomInt(rng, total, total + 20) : randomInt(rng, 0, 10 + tier * 5);
+    terms = [start];
+    deltas.forEach((delta, i) => terms.push(terms[i] + (descending ? -delta : delta)));
+  } else {
+    const ratio = randomInt(rng, 2, 3);
+    const start = randomInt(rng, 1, 5);
+    terms = Array.from({ length: 6 }, (_, i) => start * ratio ** i);
+  }
+
+  // Younger children find the next term, older ones a missing middle term
+  const missing = tier >= 5 && rng() < 0.5 ? randomInt(rng, 1, 3) : 4;
+  const shown = terms.slice(0, 5).map((t, i) => (i === missing ? "__" : String(t)));
+  return {
+    itemType: "free-text",
+    questionText: missing === 4
+      ? `What number comes next? ${shown.slice(0, 4).join(", ")}, __`
+      : `What number is missing? ${shown.join(", ")}`,
+    correctAnswer: String(terms[missing]),
+  };
+}
+
+const SHAPES: { name: string; sides: number }[] = [
+  { name: "triangle", sides: 3 },
+  { name: "square", sides: 4 },
+  { name: "pentagon", sides: 5 },
+  { name: "hexagon", sides: 6 },
+  { name: "octagon", sides: 8 },
+];
+
+const DIRECTIONS = ["north", "east", "south", "west"];
+
+function spatialReasoning(rng: Rng, tier: number): ItemContent {
+  const kind = tier <= 3
+    ? pick(rng, ["shape", "turn"])
+    : tier <= 6
+    ? pick(rng, ["turn", "area"])
+    : pick(rng, ["area", "perimeter", "cubes"]);
+
+  switch (kind) {
+    case "shape": {
+      const shape = pick(rng, tier <= 2 ? SHAPES.slice(0, 3) : SHAPES);
+      const options = shuffle(rng, SHAPES.map((s) => s.name)).filter((n) => n !== shape.name).slice(0, 3);
+      return {
+        itemType: "multiple-choice",
+        questionText: `Which shape has ${shape.sides} corners?`,
+        correctAnswer: shape.name,
+        options: shuffle(rng, [shape.name, ...options]),
+      };
+    }
+    case "turn": {
+      const quarters = tier <= 2 ? 1 : randomInt(rng, 1, 3);
+      const clockwise = tier <= 3 || rng() < 0.5;
+      const start = randomInt(rng, 0, 3);
+      const end = (start + (clockwise ? quarters : 4 - quarters)) % 4;
+      const turn = ["", "a quarter turn", "a half turn", "three quarter turns"][quarters];
+      return {
+        itemType: "multiple-choice",
+        questionText: `You are facing ${DIRECTIONS[start]}. You make ${turn} ${clockwise ? "clockwise" : "anticlockwise"}. Which way are you facing now?`,
+        correctAnswer: DIRECTIONS[end],
+        options: DIRECTIONS,
+      };
+    }
+    case "area": {
+      const width = randomInt(rng, 2, 3 + tier);
+      const height = randomInt(rng, 2, 2 + tier);
+      return {
+        itemType: "free-text",
+        questionText: `A rectangle is ${width} squares wide and ${height} squares tall. How many squares cover it?`,
+        correctAnswer: String(width * height),
+      };
+    }
+    case "perimeter": {
+      const length = randomInt(rng, 3, 4 + tier);
+      const width = randomInt(rng, 2, length);
+      return {
+        itemType: "free-text",
+        questionText: `A rectangle is ${length} cm long and ${width} cm wide. What is its perimeter?`,
+        correctAnswer: `${2 * (length + width)} cm`,
+      };
+    }
+    default: {
+      const [a, b, c] = [randomInt(rng, 2, 4), randomInt(rng, 2, 4), randomInt(rng, 2, tier >= 10 ? 5 : 3)];
+      return {
+        itemType: "free-text",
+        questionText: `A block is built from small cubes. It is ${a} cubes long, ${b} cubes wide and ${c} cubes tall. How many small cubes is it made of?`,
+        correctAnswer: String(a * b * c),
+      };
+    }
+  }
+}
+
+// Running calculations held in mind across several steps
+function workingMemory(rng: Rng, tier: number): ItemContent {
+  const steps = Math.min(5, 2 + Math.floor(tier / 3));
+  const maxOperand = tier <= 3 ? 5 : tier <= 7 ? 10 : 20;
+  const start = randomInt(rng, 2, maxOperand);
+  let value = start;
+  const instructions: string[] = [];
+
+  for (let i = 0; i < steps; i++) {
+    const canDouble = tier >= 7 && value <= 50;
+    const operation = canDouble && rng() < 0.25 ? "double" : rng() < 0.5 || value <= 1 ? "add" : "subtract";
+    if (operation === "double") {
+      instructions.push("double it");
+      value *= 2;
+    } else if (operation === "add") {
+      const n = randomInt(rng, 1, maxOperand);
+      instructions.push(`add ${n}`);
+      value += n;
+    } else {
+      const n = randomInt(rng, 1, Math.min(maxOperand, value - 1));
+      instructions.push(`take away ${n}`);
+      value -= n;
+    }
+  }
+
+  const [first, ...rest] = instructions;
+  return {
+    itemType: "free-text",
+    questionText: `Start with ${start}. ${first[0].toUpperCase()}${first.slice(1)}${rest.map((s) => `, then ${s}`).join("")}. What number do you end with?`,
+    correctAnswer: String(value),
+  };
+}
+
+const GENERATORS: Record<Construct, (rng: Rng, tier: number) => ItemContent> = {
+  "Number Sense": numberSense,
+  "Place Value": placeValue,
+  "Basic Arithmetic": basicArithmetic,
+  "Pattern Recognition": patternRecognition,
+  "Spatial Reasoning": spatialReasoning,
+  "Working Memory": workingMemory,
+};
+
+// Seed for the item at a position in a test form
+export function itemSeed(testSeed: number, questionNumber: number): number {
+  return hashSeed(testSeed, questionNumber);
+}
+
+export function generateLocalQuestion(construct: string, difficultyLevel: number, age: number, seed: number): Question {
+  const generator = GENERATORS[construct as Construct] ?? GENERATORS["Basic Arithmetic"];
+  const content = generator(seededRandom(hashSeed(seed, construct, difficultyLevel)), tierFor(age, difficultyLevel));
+  return parseQuestion({ ...content, construct, difficultyLevel });
+}
+
+// Seeds tried for an item the student can read before giving up
+const READABLE_ATTEMPTS = 5;
+
+// A generated item that passes the reading guard for the age, as every
+// served item must. An item that fails is drawn again from a seed derived
+// from the first. The templates are written to pass (generators_test.ts
+// holds them to it), so failing every attempt is a bug and throws.
+export function generateReadableQuestion(construct: string, difficultyLevel: number, age: number, seed: number, functionName: string): Question {
+  for (let attempt = 0; attempt < READABLE_ATTEMPTS; attempt++) {
+    const item = generateLocalQuestion(construct, difficultyLevel, age, attempt === 0 ? seed : hashSeed(seed, attempt));
+    const check = checkReading(item, age);
+    if (check.ok) return item;
+    logRejection(functionName, `generated item is hard to read: ${check.problems.join("; ")}`, item, "");
+  }
+  throw new Error(`No readable ${construct} item at level ${difficultyLevel} for age ${age}`);
+}
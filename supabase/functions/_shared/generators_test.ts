@@ -0,0 +1,45 @@
+import { assert } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { CONSTRUCTS } from "./constructs.ts";
+import { generateLocalQuestion } from "./generators.ts";
+import { numberLineTask } from "./number-line.ts";
+import { checkReading } from "./readability.ts";
+
+Deno.test("pattern recognition sequences never go below zero", () => {
+  for (let age = 5; age <= 14; age++) {
+    for (let difficultyLevel = 1; difficultyLevel <= 5; difficultyLevel++) {
+      for (let seed = 1; seed <= 200; seed++) {
+        const item = generateLocalQuestion("Pattern Recognition", difficultyLevel, age, seed);
+        const terms = [...`${item.questionText} ${item.correctAnswer}`.matchAll(/-?\d+/g)].map((m) => Number(m[0]));
+        assert(
+          terms.every((t) => t >= 0),
+          `age ${age}, difficulty ${difficultyLevel}, seed ${seed}: "${item.questionText}" with key ${item.correctAnswer}`
+        );
+      }
+    }
+  }
+});
+
+// Every age from the youngest band to the oldest, so each band's limits and
+// vocabulary are covered
+Deno.test("every generator template passes the reading guard at every age", () => {
+  for (let age = 5; age <= 14; age++) {
+    for (const construct of CONSTRUCTS) {
+      for (let difficultyLevel = 1; difficultyLevel <= 5; difficultyLevel++) {
+        for (let seed = 1; seed <= 200; seed++) {
+          const item = generateLocalQuestion(construct, difficultyLevel, age, seed);
+          const check = checkReading(item, age);
+          assert(check.ok, `${construct}, age ${age}, difficulty ${difficultyLevel}: "${item.questionText}" ${check.ok ? "" : check.problems.join("; ")}`);
+        }
+      }
+    }
+  }
+});
+
+Deno.test("the number line task passes the reading guard at every age", () => {
+  for (let age = 5; age <= 14; age++) {
+    for (const item of numberLineTask(age)) {
+      const check = checkReading(item, age);
+      assert(check.ok, `age ${age}: "${item.questionText}" ${check.ok ? "" : check.problems.join("; ")}`);
+    }
+  }
+});
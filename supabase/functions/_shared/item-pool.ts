@@ -0,0 +1,273 @@
+// The pool of model-generated items in item_pool, keyed by age band,
+// construct and difficulty. Items are drawn from the pool before the model is
+// called, and whatever the model generates is pooled for later tests, so most
+// items cost one model call across all tests rather than one each.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { completeJson, extractJson } from "./ai-client.ts";
+import { canonicalConstruct, logRejection, validateItem } from "./item-validation.ts";
+import { parseQuestion, type Question } from "./items.ts";
+import { QUESTION_PROMPT, SIMPLIFY_PROMPT, type QuestionPromptInput } from "./prompts.ts";
+import { hashInput, recordProvenance } from "./provenance.ts";
+import { hashSeed, seededRandom, shuffle } from "./random.ts";
+import { checkReading, gradeLevel } from "./readability.ts";
+import { QuestionSetSchema } from "./schemas.ts";
+
+// Items for one age band suit every age in it; the band's youngest age is
+// the one generated for
+export const AGE_BANDS = [
+  { name: "5-6", minAge: 5 },
+  { name: "7-8", minAge: 7 },
+  { name: "9-10", minAge: 9 },
+  { name: "11-12", minAge: 11 },
+  { name: "13+", minAge: 13 },
+] as const;
+
+// Items kept in stock per key by the refill job
+export const POOL_TARGET = 20;
+
+// Items requested per model call when a key is refilled
+export const REFILL_BATCH = 5;
+
+// Rounds of generation before giving up on items whose answer key failed validation
+const REFILL_ROUNDS = 3;
+
+export interface PoolKey {
+  ageBand: string;
+  construct: string;
+  difficultyLevel: number;
+}
+
+export interface PoolItem {
+  id: string;
+  question: Question;
+  provenanceId: string | null;
+}
+
+// A generated item with the part of the model output it came from, which is
+// kept with the item in the pool
+export interface GeneratedItem {
+  question: Question;
+  rawOutput: string;
+}
+
+// The model's output for each question in a question set, in order
+export function questionOutputs(raw: string): string[] {
+  let value: unknown;
+  try {
+    value = extractJson(raw);
+  } catch {
+    return [];
+  }
+  const questions = Array.isArray(value)
+    ? value
+    : value && typeof value === "object" && Array.isArray((value as { questions?: unknown }).questions)
+    ? (value as { questions: unknown[] }).questions
+    : [value];
+  return questions.map((question) => JSON.stringify(question, null, 2));
+}
+
+export function ageBand(age: number): string {
+  return [...AGE_BANDS].reverse().find((band) => age >= band.minAge)?.name ?? AGE_BANDS[0].name;
+}
+
+export function bandAge(band: string): number {
+  return AGE_BANDS.find((b) => b.name === band)?.minAge ?? AGE_BANDS[0].minAge;
+}
+
+// Two items that read the same and have the same key are the same item
+export function itemFingerprint(item: Question): Promise<string> {
+  const normalise = (text: string) => text.trim().toLowerCase().replace(/\s+/g, " ");
+  return hashInput([item.itemType, normalise(item.questionText), normalise(item.correctAnswer)]);
+}
+
+// Up to count items for the key that the test has not been given yet, in an
+// order fixed by the seed. Items in exclude are left out as well.
+export async function drawPoolItems(
+  admin: SupabaseClient,
+  testId: string,
+  key: PoolKey,
+  count: number,
+  seed: number,
+  exclude: string[] = []
+): Promise<PoolItem[]> {
+  if (count <= 0) return [];
+
+  const { data: used, error: usedError } = await admin
+    .from("item_keys")
+    .select("pool_item_id")
+    .eq("test_id", testId)
+    .not("pool_item_id", "is", null);
+
+  if (usedError) throw usedError;
+  const usedIds = new Set([...(used || []).map((row) => row.pool_item_id), ...exclude]);
+
+  const { data, error } = await admin
+    .from("item_pool")
+    .select("id, item, provenance_id")
+    .eq("age_band", key.ageBand)
+    .eq("construct", key.construct)
+    .eq("difficulty_level", key.difficultyLevel)
+    .order("id", { ascending: true });
+
+  if (error) throw error;
+  const available = (data || []).filter((row) => !usedIds.has(row.id));
+
+  return shuffle(seededRandom(seed), available)
+    .slice(0, count)
+    .map((row) => ({ id: row.id, question: parseQuestion(row.item as Record<string, unknown>), provenanceId: row.provenance_id }));
+}
+
+// Pools the items under their own construct and difficulty and returns how
+// many were new. Items already in the pool are skipped.
+export async function addToPool(
+  admin: SupabaseClient,
+  band: string,
+  items: GeneratedItem[],
+  provenanceId: string | null
+): Promise<number> {
+  if (items.length === 0) return 0;
+
+  const rows = await Promise.all(items.map(async ({ question, rawOutput }) => ({
+    age_band: band,
+    construct: question.construct,
+    difficulty_level: question.difficultyLevel,
+    item: question,
+    fingerprint: await itemFingerprint(question),
+    readability_grade: gradeLevel(question.questionText),
+    provenance_id: provenanceId,
+    raw_output: rawOutput,
+  })));
+
+  const { data, error } = await admin
+    .from("item_pool")
+    .upsert(rows, { onConflict: "age_band,construct,difficulty_level,fingerprint", ignoreDuplicates: true })
+    .select("id");
+
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+// Holds validated items to the reading limits for the age. Items that are
+// only too hard to read are sent back to the model once to be simplified;
+// items with unsafe content, and simplified items that still fail, are
+// dropped for the caller to generate again. Returns the items that pass and
+// the model output of the simplification, if there was one.
+export async function guardReading(
+  items: GeneratedItem[],
+  age: number,
+  functionName: string,
+  raw: string
+): Promise<{ items: GeneratedItem[]; rawOutputs: string[] }> {
+  const passed: GeneratedItem[] = [];
+  const hard: { item: Question; problems: string[] }[] = [];
+  for (const generated of items) {
+    const check = checkReading(generated.question, age);
+    if (check.ok) passed.push(generated);
+    else if (check.unsafe) logRejection(functionName, check.problems.join("; "), generated.question, raw);
+    else hard.push({ item: generated.question, problems: check.problems });
+  }
+  if (hard.length === 0) return { items: passed, rawOutputs: [] };
+
+  let simplified;
+  try {
+    simplified = await completeJson(SIMPLIFY_PROMPT.render({ age, items: hard }), QuestionSetSchema, {
+      temperature: SIMPLIFY_PROMPT.temperature,
+      hint: { kind: "questions", constructs: hard.map(({ item }) => item.construct) },
+    });
+  } catch (error) {
+    console.warn("Simplifying items failed:", error);
+    hard.forEach(({ item, problems }) => logRejection(functionName, `hard to read: ${problems.join("; ")}`, item, raw));
+    return { items: passed, rawOutputs: [] };
+  }
+
+  // The rewrite must be the same item in easier words
+  const outputs = questionOutputs(simplified.raw);
+  simplified.data.questions.slice(0, hard.length).forEach((rewritten, i) => {
+    const original = hard[i].item;
+    const validation = validateItem(rewritten);
+    if (!validation.valid) {
+      logRejection(functionName, `simplified item: ${validation.reason}`, rewritten, simplified.raw);
+      return;
+    }
+
+    const item = { ...parseQuestion(validation.item), construct: original.construct, difficultyLevel: original.difficultyLevel };
+    if (item.itemType !== original.itemType || item.correctAnswer !== original.correctAnswer) {
+      logRejection(functionName, "simplifying changed the item", rewritten, simplified.raw);
+      return;
+    }
+    const check = checkReading(item, age);
+    if (check.ok) passed.push({ question: item, rawOutput: outputs[i] ?? JSON.stringify(rewritten, null, 2) });
+    else logRejection(functionName, `still hard to read after simplifying: ${check.problems.join("; ")}`, rewritten, simplified.raw);
+  });
+
+  return { items: passed, rawOutputs: [simplified.raw] };
+}
+
+// Asks the model for count items for the key and pools the ones that pass
+// validation. Returns how many were new to the pool.
+export async function refillPool(
+  admin: SupabaseClient,
+  key: PoolKey,
+  count: number,
+  caller: { functionName: string; functionVersion: number }
+): Promise<number> {
+  // Pooled items serve every student in the band, so the prompt is not
+  // tailored to anyone's error history
+  const input: QuestionPromptInput = {
+    age: bandAge(key.ageBand),
+    itemCount: count,
+    struggledWith: [],
+    construct: key.construct,
+    difficultyLevel: key.difficultyLevel,
+  };
+
+  const rawOutputs: string[] = [];
+  const accepted: GeneratedItem[] = [];
+  for (let round = 1; round <= REFILL_ROUNDS && accepted.length < count; round++) {
+    const needed = count - accepted.length;
+    const { data, raw } = await completeJson(
+      QUESTION_PROMPT.render({ ...input, itemCount: needed }),
+      QuestionSetSchema,
+      {
+        temperature: QUESTION_PROMPT.temperature,
+        hint: { kind: "questions", constructs: Array<string>(needed).fill(key.construct), seed: hashSeed(key.ageBand, key.difficultyLevel, round) },
+      }
+    );
+    rawOutputs.push(raw);
+
+    const outputs = questionOutputs(raw);
+    const valid: GeneratedItem[] = [];
+    data.questions.slice(0, needed).forEach((item, i) => {
+      const validation = validateItem(item);
+      if (!validation.valid) {
+        logRejection(caller.functionName, validation.reason, item, raw);
+      } else if (validation.item.construct !== canonicalConstruct(key.construct)) {
+        logRejection(caller.functionName, `item tests "${validation.item.construct}" instead of "${key.construct}"`, item, raw);
+      } else {
+        // Pooled under the difficulty asked for, which is what it is served as
+        valid.push({
+          question: { ...parseQuestion(validation.item), difficultyLevel: key.difficultyLevel },
+          rawOutput: outputs[i] ?? JSON.stringify(item, null, 2),
+        });
+      }
+    });
+
+    const readable = await guardReading(valid, input.age, caller.functionName, raw);
+    accepted.push(...readable.items);
+    rawOutputs.push(...readable.rawOutputs);
+  }
+
+  if (accepted.length === 0) return 0;
+  const provenanceId = await recordProvenance(admin, {
+    ...caller,
+    testId: null,
+    kind: "pool",
+    questionNumbers: [],
+    source: "model",
+    template: QUESTION_PROMPT,
+    input,
+    rawOutputs,
+  });
+  return addToPool(admin, key.ageBand, accepted, provenanceId);
+}
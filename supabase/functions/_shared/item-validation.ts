@@ -0,0 +1,230 @@
+// Checks generated items before they reach a child. Answer keys that can be
+// computed from the question - arithmetic, comparisons, place value and
+// number sequences - are re-derived and compared with the model's key, and
+// every item must test a construct from the taxonomy. Anything else about the
+// item is trusted.
+
+import { CONSTRUCTS } from "./constructs.ts";
+import { ORDER_SEPARATOR } from "./items.ts";
+
+export type ItemValidation =
+  | { valid: true; item: Record<string, unknown> }
+  | { valid: false; reason: string };
+
+// Matches the construct name ignoring case and spacing
+export function canonicalConstruct(name: unknown): string | null {
+  if (typeof name !== "string") return null;
+  const key = name.trim().toLowerCase().replace(/\s+/g, " ");
+  return CONSTRUCTS.find((c) => c.toLowerCase() === key) ?? null;
+}
+
+function approximatelyEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+// The number an answer key states: "12", "1,200", "3.5", "3/4", "12 cm"
+function parseKey(answer: string): number | null {
+  const text = answer.trim().replace(/(\d),(?=\d{3}\b)/g, "$1");
+  const fraction = text.match(/^(-?\d+)\s*\/\s*(\d+)\b/);
+  if (fraction) return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+  const number = text.match(/^-?\d+(?:\.\d+)?/);
+  return number ? Number(number[0]) : null;
+}
+
+function numbersIn(text: string): number[] {
+  return (text.replace(/(\d),(?=\d{3}\b)/g, "$1").match(/\d+(?:\.\d+)?/g) || []).map(Number);
+}
+
+const OPERATIONS: Record<string, (a: number, b: number) => number> = {
+  "+": (a, b) => a + b, "plus": (a, b) => a + b,
+  "-": (a, b) => a - b, "−": (a, b) => a - b, "minus": (a, b) => a - b,
+  "×": (a, b) => a * b, "*": (a, b) => a * b, "x": (a, b) => a * b, "times": (a, b) => a * b,
+  "÷": (a, b) => a / b, "/": (a, b) => a / b, "divided by": (a, b) => a / b,
+};
+
+// "What is 7 + 5?", "12 × 3 = ?" - only bare expressions whose two operands
+// are the only numbers in the question; word problems are left alone
+function deriveArithmetic(question: string): number | null {
+  // Fraction arithmetic is not re-derived
+  if (/\d\s*\/\s*\d+\s*[-+×*÷]/.test(question)) return null;
+
+  const match = question.match(/(\d+(?:\.\d+)?)\s*(\+|plus|-|−|minus|×|\*|x|times|÷|\/|divided by)\s*(\d+(?:\.\d+)?)\s*(?:=|\?|$)/i);
+  if (!match || numbersIn(question).length !== 2) return null;
+
+  const result = OPERATIONS[match[2].toLowerCase()](Number(match[1]), Number(match[3]));
+  return Number.isFinite(result) ? result : null;
+}
+
+// "Which is larger: 45 or 54?", "Which number is the smallest? 3, 8, 1"
+function deriveComparison(question: string, options: number[]): number | null {
+  const larger = /\b(larger|largest|bigger|biggest|greater|greatest|more)\b/i.test(question);
+  const smaller = /\b(smaller|smallest|less|least|fewer)\b/i.test(question);
+  if (larger === smaller || !/\bwhich\b/i.test(question)) return null;
+  // "3 tens or 25 ones", "1 m or 90 cm": the bare numbers are not the quantities compared
+  if (/\b(ones|tens|hundreds|thousands|halves|half|quarters?|thirds?|cm|mm|m|km|g|kg|ml|l|minutes?|hours?|days?)\b|[$£€%]/i.test(question)) return null;
+
+  const candidates = options.length > 1 ? options : numbersIn(question);
+  if (candidates.length < 2 || new Set(candidates).size !== candidates.length) return null;
+  return larger ? Math.max(...candidates) : Math.min(...candidates);
+}
+
+const PLACES: Record<string, number> = {
+  "ones": 0, "units": 0, "tens": 1, "hundreds": 2, "thousands": 3, "ten thousands": 4, "hundred thousands": 5,
+};
+
+// "What is the value of the digit 5 in 4,599?", "Which digit is in the tens place in 347?"
+function derivePlaceValue(question: string): number | null {
+  const value = question.match(/value of (?:the )?(?:digit )?(\d)\b.*?\bin (?:the number )?(\d[\d,]*)/i);
+  if (value) {
+    const digits = value[2].replace(/,/g, "");
+    const positions = [...digits].flatMap((d, i) => (d === value[1] ? [digits.length - 1 - i] : []));
+    return positions.length === 1 ? Number(value[1]) * 10 ** positions[0] : null;
+  }
+
+  const place = question.match(/digit (?:is )?in the (ones|units|tens|hundreds|thousands|ten thousands|hundred thousands) place (?:of|in) (?:the number )?(\d[\d,]*)/i);
+  if (place) {
+    const digits = place[2].replace(/,/g, "");
+    const index = digits.length - 1 - PLACES[place[1].toLowerCase()];
+    return index >= 0 ? Number(digits[index]) : null;
+  }
+
+  return null;
+}
+
+// Finds the rule of a sequence with a constant difference, a steadily growing
+// difference or a constant ratio and fills the blank ("2, 4, __, 8") or the
+// next term ("3, 6, 9, 12, __")
+function deriveSequence(question: string): number | null {
+  const list = question.match(/(?:-?\d+(?:\.\d+)?|_+|\?)(?:\s*,\s*(?:-?\d+(?:\.\d+)?|_+|\?)){2,}/);
+  if (!list) return null;
+
+  const terms = list[0].split(",").map((t) => t.trim());
+  let blank = terms.findIndex((t) => /^(_+|\?)$/.test(t));
+  if (blank === -1) {
+    if (!/\bnext\b/i.test(question)) return null;
+    blank = terms.length;
+    terms.push("_");
+  }
+
+  const known = terms.map((t, i) => (i === blank ? null : Number(t)));
+  const pairs = known.slice(1).flatMap((t, i) => (t !== null && known[i] !== null ? [[known[i]!, t]] : []));
+  if (pairs.length < 2) return null;
+
+  const differences = pairs.map(([a, b]) => b - a);
+  if (differences.every((d) => approximatelyEqual(d, differences[0]))) {
+    const step = differences[0];
+    return blank > 0 ? (known[blank - 1] as number) + step : (known[1] as number) - step;
+  }
+
+  // A step that grows by the same amount each time (a constant second
+  // difference) is fitted through three known terms and has to hold for at
+  // least one more
+  const points = known.flatMap((t, i) => (t === null ? [] : [[i, t] as const]));
+  if (points.length >= 4) {
+    const basis = points.slice(0, 3);
+    const quadratic = (x: number) => basis.reduce(
+      (sum, [xj, yj], j) => sum + yj * basis.reduce((product, [xk], k) => (k === j ? product : (product * (x - xk)) / (xj - xk)), 1),
+      0
+    );
+    if (points.slice(3).every(([x, y]) => approximatelyEqual(quadratic(x), y))) return quadratic(blank);
+  }
+
+  // Two matching ratios happen by chance too often ("36, 42, 49"), so a
+  // constant ratio needs three
+  const ratios = pairs.map(([a, b]) => (a === 0 ? NaN : b / a));
+  if (pairs.length >= 3 && ratios.every((r) => Number.isFinite(r) && approximatelyEqual(r, ratios[0]))) {
+    return blank > 0 ? (known[blank - 1] as number) * ratios[0] : (known[1] as number) / ratios[0];
+  }
+  return null;
+}
+
+function checkStructure(item: Record<string, unknown>): string | null {
+  const key = String(item.correctAnswer);
+
+  switch (item.itemType) {
+    case "multiple-choice":
+      if (!Array.isArray(item.options) || !item.options.some((o) => String(o).trim().toLowerCase() === key.trim().toLowerCase())) {
+        return "answer key is not one of the options";
+      }
+      return null;
+    case "number-line": {
+      const { min, max, target } = item as { min: number; max: number; target: number };
+      if (![min, max, target].every((n) => typeof n === "number") || target < min || target > max) return "target is off the line";
+      if (parseKey(key) !== target) return "answer key does not match the target";
+      return null;
+    }
+    case "dot-comparison": {
+      const { leftCount, rightCount, ask } = item as { leftCount: number; rightCount: number; ask?: string };
+      if (typeof leftCount !== "number" || typeof rightCount !== "number" || leftCount === rightCount) return "dot counts are missing or equal";
+      const leftWins = ask === "fewer" ? leftCount < rightCount : leftCount > rightCount;
+      if (key !== (leftWins ? "left" : "right")) return `answer key should be "${leftWins ? "left" : "right"}"`;
+      return null;
+    }
+    case "ordering": {
+      if (!Array.isArray(item.items) || !Array.isArray(item.correctOrder)) return "ordering items are missing";
+      const items = item.items.map(String);
+      const order = item.correctOrder.map(String);
+      if ([...items].sort().join("\n") !== [...order].sort().join("\n")) return "correct order does not use the same items";
+
+      const values = order.map(parseKey);
+      if (values.every((v) => v !== null)) {
+        const descending = /\b(largest|biggest|greatest) to (smallest|least)|descending|high(est)? to low/i.test(String(item.questionText));
+        const sorted = [...values].sort((a, b) => (descending ? b! - a! : a! - b!));
+        if (sorted.some((v, i) => v !== values[i])) return "correct order is not sorted";
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+export function validateItem(raw: unknown): ItemValidation {
+  if (!raw || typeof raw !== "object") return { valid: false, reason: "item is not an object" };
+  const item = { ...(raw as Record<string, unknown>) };
+
+  if (typeof item.questionText !== "string" || !item.questionText.trim()) return { valid: false, reason: "missing questionText" };
+  // The key of an ordering item is its correct order
+  if (item.itemType === "ordering" && Array.isArray(item.correctOrder)) {
+    item.correctAnswer = item.correctOrder.map(String).join(ORDER_SEPARATOR);
+  }
+  if (item.correctAnswer === undefined || item.correctAnswer === null || String(item.correctAnswer).trim() === "") {
+    return { valid: false, reason: "missing correctAnswer" };
+  }
+  item.correctAnswer = String(item.correctAnswer);
+
+  const construct = canonicalConstruct(item.construct);
+  if (!construct) return { valid: false, reason: `construct "${item.construct}" is not in the taxonomy` };
+  item.construct = construct;
+
+  const structural = checkStructure(item);
+  if (structural) return { valid: false, reason: structural };
+
+  // Non-numeric options (shapes, directions) leave the comparison underivable
+  const options = Array.isArray(item.options) ? item.options.map((o) => parseKey(String(o))) : [];
+  const numericOptions = options.every((o) => o !== null) ? (options as number[]) : [];
+
+  const question = item.questionText as string;
+  const checks: [string, number | null][] = [
+    ["arithmetic", deriveArithmetic(question)],
+    ["comparison", deriveComparison(question, numericOptions)],
+    ["place value", derivePlaceValue(question)],
+    ["sequence", deriveSequence(question)],
+  ];
+
+  const key = parseKey(item.correctAnswer as string);
+  for (const [kind, expected] of checks) {
+    if (expected === null || item.itemType === "number-line" || item.itemType === "dot-comparison" || item.itemType === "ordering") continue;
+    if (key === null || !approximatelyEqual(key, expected)) {
+      return { valid: false, reason: `${kind} answer key "${item.correctAnswer}" should be ${expected}` };
+    }
+    break;
+  }
+
+  return { valid: true, item };
+}
+
+// One structured log line per rejected item, with the model output it came from
+export function logRejection(fn: string, reason: string, item: unknown, rawOutput: string): void {
+  console.warn(JSON.stringify({ event: "item-rejected", function: fn, reason, item, rawOutput }));
+}
@@ -0,0 +1,26 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { validateItem } from "./item-validation.ts";
+
+function sequenceItem(questionText: string, correctAnswer: string) {
+  return { itemType: "free-text", questionText, correctAnswer, construct: "Pattern Recognition", difficultyLevel: 3 };
+}
+
+Deno.test("a sequence whose step grows is not mistaken for a constant ratio", () => {
+  const result = validateItem(sequenceItem("What number is missing? 36, 42, 49, __, 66", "57"));
+  assert(result.valid, result.valid ? "" : result.reason);
+});
+
+Deno.test("a wrong key for a growing step is rejected", () => {
+  const result = validateItem(sequenceItem("What number comes next? 1, 3, 6, 10, __", "14"));
+  assertEquals(result.valid, false);
+});
+
+Deno.test("constant ratios are still checked", () => {
+  assert(validateItem(sequenceItem("What number comes next? 2, 4, 8, 16, __", "32")).valid);
+  assertEquals(validateItem(sequenceItem("What number comes next? 2, 4, 8, 16, __", "30")).valid, false);
+});
+
+Deno.test("constant differences are still checked", () => {
+  assert(validateItem(sequenceItem("What number is missing? 20, 17, __, 11, 8", "14")).valid);
+  assertEquals(validateItem(sequenceItem("What number is missing? 20, 17, __, 11, 8", "13")).valid, false);
+});
@@ -0,0 +1,203 @@
+import { parseNumericAnswer, scoreAnswer, type AnswerScore } from "./scoring.ts";
+import { classifyError, type Misconception } from "./misconceptions.ts";
+
+// Typed diagnostic items. Free-text items are scored with the answer
+// equivalence rules; the other types are answered by pointing, dragging or
+// tapping, which suits younger children and isolates number sense from
+// reading and typing. Every answer is stored as text so all types share the
+// test_responses columns.
+
+export const ITEM_TYPES = ["free-text", "multiple-choice", "number-line", "dot-comparison", "ordering"] as const;
+
+export type ItemType = (typeof ITEM_TYPES)[number];
+
+// Separates the items of an ordering answer ("3 | 7 | 12")
+export const ORDER_SEPARATOR = " | ";
+
+// Default number line tolerance as a share of the line's range
+const NUMBER_LINE_TOLERANCE = 0.05;
+
+// Most dots a dot comparison set can show
+export const MAX_DOTS = 36;
+
+interface BaseQuestion {
+  questionText: string;
+  // Always the answer key as text, in the same form as the stored answer
+  correctAnswer: string;
+  construct: string;
+  difficultyLevel: number;
+}
+
+export interface FreeTextQuestion extends BaseQuestion {
+  itemType: "free-text";
+}
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  itemType: "multiple-choice";
+  options: string[];
+}
+
+export interface NumberLineQuestion extends BaseQuestion {
+  itemType: "number-line";
+  min: number;
+  max: number;
+  target: number;
+  // Share of the range within which a placement is correct
+  tolerance: number;
+}
+
+export interface DotComparisonQuestion extends BaseQuestion {
+  itemType: "dot-comparison";
+  leftCount: number;
+  rightCount: number;
+  // Whether the child should pick the set with more or fewer dots
+  ask: "more" | "fewer";
+}
+
+export interface OrderingQuestion extends BaseQuestion {
+  itemType: "ordering";
+  // Items in the order they are first shown
+  items: string[];
+  correctOrder: string[];
+}
+
+export type Question =
+  | FreeTextQuestion
+  | MultipleChoiceQuestion
+  | NumberLineQuestion
+  | DotComparisonQuestion
+  | OrderingQuestion;
+
+// Fields that give the answer away. They stay on the server until the item
+// has been answered.
+type KeyField = "correctAnswer" | "target" | "tolerance" | "correctOrder";
+
+type WithoutKey<Q> = Q extends Question ? Omit<Q, KeyField> : never;
+
+// An item as the browser sees it
+export type PublicQuestion = WithoutKey<Question>;
+
+export type PublicItem<T extends ItemType> = Extract<PublicQuestion, { itemType: T }>;
+
+export function toPublicQuestion(question: Question): PublicQuestion {
+  const { correctAnswer, target, tolerance, correctOrder, ...rest } = question as Question & Partial<Record<KeyField, unknown>>;
+  return rest as PublicQuestion;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isTextList(value: unknown): value is (string | number)[] {
+  return Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === "string" || typeof v === "number");
+}
+
+function sameItems(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join("\n") === [...b].sort().join("\n");
+}
+
+// Builds a typed item from generated or stored JSON. Items with an unknown
+// type or inconsistent fields fall back to free text so the test can carry on.
+export function parseQuestion(raw: Record<string, unknown>): Question {
+  const base: BaseQuestion = {
+    questionText: String(raw.questionText ?? ""),
+    correctAnswer: String(raw.correctAnswer ?? ""),
+    construct: String(raw.construct ?? ""),
+    difficultyLevel: Number(raw.difficultyLevel) || 3,
+  };
+
+  switch (raw.itemType) {
+    case "multiple-choice": {
+      if (!isTextList(raw.options)) break;
+      const options = raw.options.map(String);
+      const answer = options.find((o) => scoreAnswer(o, base.correctAnswer).isCorrect);
+      if (!answer) break;
+      return { ...base, itemType: "multiple-choice", options, correctAnswer: answer };
+    }
+
+    case "number-line": {
+      const { min, max, target } = raw;
+      if (!isFiniteNumber(min) || !isFiniteNumber(max) || !isFiniteNumber(target)) break;
+      if (max <= min || target < min || target > max) break;
+      const tolerance = isFiniteNumber(raw.tolerance) && raw.tolerance > 0 ? raw.tolerance : NUMBER_LINE_TOLERANCE;
+      return { ...base, itemType: "number-line", min, max, target, tolerance, correctAnswer: String(target) };
+    }
+
+    case "dot-comparison": {
+      const { leftCount, rightCount } = raw;
+      if (!isFiniteNumber(leftCount) || !isFiniteNumber(rightCount)) break;
+      if (leftCount < 1 || rightCount < 1 || leftCount === rightCount) break;
+      if (leftCount > MAX_DOTS || rightCount > MAX_DOTS) break;
+      const ask = raw.ask === "fewer" ? "fewer" : "more";
+      const leftWins = ask === "more" ? leftCount > rightCount : leftCount < rightCount;
+      return {
+        ...base,
+        itemType: "dot-comparison",
+        leftCount: Math.round(leftCount),
+        rightCount: Math.round(rightCount),
+        ask,
+        correctAnswer: leftWins ? "left" : "right",
+      };
+    }
+
+    case "ordering": {
+      if (!isTextList(raw.items) || !isTextList(raw.correctOrder)) break;
+      const items = raw.items.map(String);
+      const correctOrder = raw.correctOrder.map(String);
+      if (items.length < 2 || new Set(items).size !== items.length || !sameItems(items, correctOrder)) break;
+      return { ...base, itemType: "ordering", items, correctOrder, correctAnswer: correctOrder.join(ORDER_SEPARATOR) };
+    }
+  }
+
+  return { ...base, itemType: "free-text" };
+}
+
+// The answer a child starts from before interacting with the item. Ordering
+// items start in their presented order, which can be submitted unchanged.
+export function initialAnswer(question: PublicQuestion | undefined): string {
+  return question?.itemType === "ordering" ? question.items.join(ORDER_SEPARATOR) : "";
+}
+
+export function scoreQuestion(question: Question, answer: string): AnswerScore {
+  switch (question.itemType) {
+    case "free-text":
+      return scoreAnswer(answer, question.correctAnswer);
+
+    case "multiple-choice":
+    case "dot-comparison":
+      return answer === question.correctAnswer
+        ? { isCorrect: true, rule: "option" }
+        : { isCorrect: false, rule: "no-match" };
+
+    case "number-line": {
+      const placed = parseNumericAnswer(answer);
+      const withinTolerance =
+        placed !== null && Math.abs(placed - question.target) <= question.tolerance * (question.max - question.min);
+      return withinTolerance
+        ? { isCorrect: true, rule: "within-tolerance" }
+        : { isCorrect: false, rule: "no-match" };
+    }
+
+    case "ordering":
+      return answer === question.correctAnswer
+        ? { isCorrect: true, rule: "sequence" }
+        : { isCorrect: false, rule: "no-match" };
+  }
+}
+
+// Misconceptions are read from the answer for typed and chosen answers.
+// Choosing the wrong dot set is a reversed comparison; misplacements and
+// misorderings are not classified further.
+export function classifyQuestionError(question: Question, answer: string, isCorrect: boolean): Misconception | null {
+  if (isCorrect) return null;
+
+  switch (question.itemType) {
+    case "free-text":
+    case "multiple-choice":
+      return classifyError({ questionText: question.questionText, userAnswer: answer, correctAnswer: question.correctAnswer, isCorrect });
+    case "dot-comparison":
+      return "comparison-reversal";
+    default:
+      return "unclassified";
+  }
+}
@@ -0,0 +1,62 @@
+// Canned model output for the mock provider. Every question passes
+// validateItem, so the whole diagnostic can run offline.
+
+import type { GeneratedQuestion, GeneratedRoadmapStep, RoadmapHeader } from "./schemas.ts";
+
+type Fixture = Omit<GeneratedQuestion, "construct">;
+
+export const FIXTURE_QUESTIONS: Record<string, Fixture[]> = {
+  "Number Sense": [
+    { itemType: "multiple-choice", questionText: "Which number is larger: 47 or 74?", options: ["47", "74"], correctAnswer: "74", difficultyLevel: 2 },
+    { itemType: "dot-comparison", questionText: "Which box has more dots?", leftCount: 12, rightCount: 17, ask: "more", correctAnswer: "right", difficultyLevel: 2 },
+    { itemType: "number-line", questionText: "Put 30 on the number line.", min: 0, max: 100, target: 30, correctAnswer: "30", difficultyLevel: 3 },
+  ],
+  "Place Value": [
+    { itemType: "free-text", questionText: "What is the value of the digit 5 in 352?", correctAnswer: "50", difficultyLevel: 2 },
+    { itemType: "multiple-choice", questionText: "Which digit is in the tens place in 486?", options: ["4", "8", "6"], correctAnswer: "8", difficultyLevel: 2 },
+    { itemType: "free-text", questionText: "How many tens are in 70?", correctAnswer: "7", difficultyLevel: 3 },
+  ],
+  "Basic Arithmetic": [
+    { itemType: "free-text", questionText: "What is 8 + 5?", correctAnswer: "13", difficultyLevel: 2 },
+    { itemType: "multiple-choice", questionText: "What is 15 - 7?", options: ["6", "8", "9", "22"], correctAnswer: "8", difficultyLevel: 3 },
+    { itemType: "free-text", questionText: "What is 6 × 4?", correctAnswer: "24", difficultyLevel: 3 },
+  ],
+  "Pattern Recognition": [
+    { itemType: "free-text", questionText: "What number comes next? 3, 6, 9, 12, __", correctAnswer: "15", difficultyLevel: 2 },
+    { itemType: "multiple-choice", questionText: "Fill in the missing number: 2, 4, __, 8", options: ["5", "6", "7"], correctAnswer: "6", difficultyLevel: 2 },
+    { itemType: "ordering", questionText: "Put these numbers in order from smallest to largest.", items: ["9", "2", "7", "4"], correctOrder: ["2", "4", "7", "9"], difficultyLevel: 3 },
+  ],
+  "Spatial Reasoning": [
+    { itemType: "multiple-choice", questionText: "How many sides does a triangle have?", options: ["3", "4", "5"], correctAnswer: "3", difficultyLevel: 1 },
+    { itemType: "multiple-choice", questionText: "Which shape has four equal sides?", options: ["square", "triangle", "circle"], correctAnswer: "square", difficultyLevel: 2 },
+    { itemType: "free-text", questionText: "How many corners does a square have?", correctAnswer: "4", difficultyLevel: 2 },
+  ],
+  "Working Memory": [
+    { itemType: "free-text", questionText: "Sam has 5 apples and buys 3 more. Sam then eats 2. How many apples does Sam have now?", correctAnswer: "6", difficultyLevel: 3 },
+    { itemType: "free-text", questionText: "Remember these numbers: 4, 9, 2. What is the middle number?", correctAnswer: "9", difficultyLevel: 2 },
+    { itemType: "free-text", questionText: "Start at 10. Add 4, then take away 3. What number do you have?", correctAnswer: "11", difficultyLevel: 3 },
+  ],
+};
+
+// Five steps that work through the blockers in order, each recommending two
+// of the catalog resources the roadmap was offered
+export function fixtureRoadmap(blockers: string[], resourceIds: string[]): RoadmapHeader & { steps: GeneratedRoadmapStep[] } {
+  const focus = blockers.length > 0 ? blockers : ["Number Sense"];
+  const severity = blockers.length >= 3 ? "severe" : blockers.length === 2 ? "moderate" : blockers.length === 1 ? "mild" : "none";
+
+  return {
+    overallSeverity: severity,
+    summary: `Offline roadmap focusing on ${focus.join(", ")}.`,
+    steps: Array.from({ length: 5 }, (_, i) => {
+      const construct = focus[i % focus.length];
+      return {
+        stepNumber: i + 1,
+        title: `Build ${construct} (part ${Math.floor(i / focus.length) + 1})`,
+        executionPlan: `Week ${i + 1}: three 15-minute sessions on ${construct}, starting with concrete materials and moving to written practice.`,
+        resources: [...new Set([resourceIds[(2 * i) % resourceIds.length], resourceIds[(2 * i + 1) % resourceIds.length]])]
+          .filter((id) => id !== undefined)
+          .map((resourceId) => ({ resourceId, use: `Use during the ${construct} sessions.` })),
+      };
+    }),
+  };
+}
@@ -0,0 +1,168 @@
+// The model backends the AI client can talk to, selected with LLM_PROVIDER:
+//   lovable (default)  the Lovable AI gateway, keyed by LOVABLE_API_KEY
+//   openai             any OpenAI-compatible endpoint: LLM_BASE_URL, LLM_API_KEY
+//   mock               canned fixtures, no network
+// LLM_MODEL overrides the provider's default model.
+
+import { FIXTURE_QUESTIONS, fixtureRoadmap } from "./llm-fixtures.ts";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// What a request is for. Only the mock provider reads it, to answer offline.
+export type RequestHint =
+  | { kind: "questions"; constructs: string[]; seed?: number }
+  | { kind: "roadmap"; blockers: string[]; resourceIds: string[]; fromStep?: number; onlySteps?: number[] };
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  jsonMode: boolean;
+  // The provider's default when not given
+  temperature?: number;
+  signal: AbortSignal;
+  hint?: RequestHint;
+}
+
+export interface LLMProvider {
+  name: string;
+  defaultModel: string;
+  // The text of the reply. Refusals are thrown as ProviderError.
+  complete(request: CompletionRequest): Promise<string>;
+  // The reply as it is generated, in pieces of text
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+// The provider answered with an error status
+export class ProviderError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfter: string | null = null) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+export function openAICompatibleProvider(name: string, baseUrl: string, apiKey: string, defaultModel: string): LLMProvider {
+  const request = async ({ model, messages, jsonMode, temperature, signal }: CompletionRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream,
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(`${name} returned ${response.status}: ${errorText}`, response.status, response.headers.get("Retry-After"));
+    }
+    return response;
+  };
+
+  return {
+    name,
+    defaultModel,
+    async complete(completion) {
+      const response = await request(completion, false);
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== "string") throw new ProviderError(`${name} returned no message`, 502);
+      return content;
+    },
+    // Server-sent chunks: "data: {...delta...}" lines, ending with "data: [DONE]"
+    async *stream(completion) {
+      const response = await request(completion, true);
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += value;
+
+        let newline;
+        while ((newline = buffer.indexOf("\n")) !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          if (!line.startsWith("data:")) continue;
+
+          const data = line.slice(5).trim();
+          if (data === "[DONE]") return;
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+  };
+}
+
+// Deterministic answers from the fixtures: the same request always gets the
+// same reply
+export const mockProvider: LLMProvider = {
+  name: "mock",
+  defaultModel: "mock-fixtures",
+  // Streams the roadmap as one JSON line per part, as generate-roadmap asks for
+  async *stream({ hint }) {
+    if (hint?.kind !== "roadmap") throw new ProviderError("The mock provider only streams roadmaps", 400);
+
+    const { overallSeverity, summary, steps } = fixtureRoadmap(hint.blockers, hint.resourceIds);
+    const fromStep = hint.fromStep ?? 1;
+    // Steps being rewritten are streamed without the summary
+    if (fromStep === 1 && !hint.onlySteps) yield JSON.stringify({ type: "summary", overallSeverity, summary }) + "\n";
+    for (const step of steps.filter((s) => s.stepNumber >= fromStep && (!hint.onlySteps || hint.onlySteps.includes(s.stepNumber)))) {
+      yield JSON.stringify({ type: "step", ...step }) + "\n";
+    }
+  },
+  async complete({ hint }) {
+    if (hint?.kind === "roadmap") return JSON.stringify(fixtureRoadmap(hint.blockers, hint.resourceIds));
+    if (hint?.kind === "questions") {
+      const questions = hint.constructs.map((construct, i) => {
+        const fixtures = FIXTURE_QUESTIONS[construct] ?? FIXTURE_QUESTIONS["Basic Arithmetic"];
+        return { ...fixtures[((hint.seed ?? 0) + i) % fixtures.length], construct };
+      });
+      return JSON.stringify({ questions });
+    }
+    throw new ProviderError("The mock provider has no fixture for this request", 400);
+  },
+};
+
+export function getProvider(): LLMProvider {
+  const provider = Deno.env.get("LLM_PROVIDER") ?? "lovable";
+
+  switch (provider) {
+    case "mock":
+      return mockProvider;
+    case "openai": {
+      const apiKey = Deno.env.get("LLM_API_KEY");
+      if (!apiKey) throw new Error("LLM_API_KEY is not configured");
+      return openAICompatibleProvider("openai", Deno.env.get("LLM_BASE_URL") ?? "https://api.openai.com/v1", apiKey, "gpt-4o-mini");
+    }
+    case "lovable": {
+      const apiKey = Deno.env.get("LOVABLE_API_KEY");
+      if (!apiKey) throw new Error("LOVABLE_API_KEY is not configured");
+      return openAICompatibleProvider("AI gateway", "https://ai.gateway.lovable.dev/v1", apiKey, "google/gemini-2.5-flash");
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+}
+
+// The model to request: LLM_MODEL, or the provider's default
+export function modelFor(provider: LLMProvider): string {
+  return Deno.env.get("LLM_MODEL") || provider.defaultModel;
+}
+
+// The provider and model requests are sent to, as recorded with their output
+export function activeModel(): { provider: string; model: string } {
+  const provider = getProvider();
+  return { provider: provider.name, model: modelFor(provider) };
+}
@@ -0,0 +1,198 @@
+import { parseNumericAnswer } from "./scoring.ts";
+
+// Classifies wrong answers into a fixed taxonomy of misconceptions by
+// comparing the child's answer with the answer key and the operation in the
+// question. 21 for 12 suggests digit reversal, 11 for 5 + 7 an off-by-one
+// counting error, 57 for 5 × 7 a place-value concatenation and 73 for 45 + 38
+// a dropped carry.
+
+export const MISCONCEPTIONS = [
+  "digit-reversal",
+  "operand-concatenation",
+  "wrong-operation",
+  "smaller-from-larger",
+  "dropped-carry",
+  "fraction-add-across",
+  "place-value-shift",
+  "comparison-reversal",
+  "off-by-one",
+  "operand-echo",
+  "unclassified",
+] as const;
+
+export type Misconception = (typeof MISCONCEPTIONS)[number];
+
+export const MISCONCEPTION_LABELS: Record<Misconception, string> = {
+  "digit-reversal": "Digit reversal",
+  "operand-concatenation": "Place-value concatenation",
+  "wrong-operation": "Wrong operation",
+  "smaller-from-larger": "Subtracts smaller digit from larger",
+  "dropped-carry": "Drops the carry or borrow",
+  "fraction-add-across": "Adds numerators and denominators",
+  "place-value-shift": "Place-value shift (×10 / ÷10)",
+  "comparison-reversal": "Magnitude comparison reversed",
+  "off-by-one": "Off-by-one counting error",
+  "operand-echo": "Repeats a number from the question",
+  "unclassified": "Unclassified error",
+};
+
+export interface ClassifiableResponse {
+  questionText: string;
+  userAnswer: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+}
+
+type Operator = "+" | "-" | "×" | "÷";
+
+interface Operation {
+  left: number;
+  operator: Operator;
+  right: number;
+}
+
+const OPERATOR_PATTERN = /(\d+(?:\.\d+)?)\s*(\+|plus|-|−|minus|take away|×|\*|x|times|multiplied by|÷|\/|divided by)\s*(\d+(?:\.\d+)?)/i;
+
+const OPERATOR_WORDS: Record<string, Operator> = {
+  "+": "+", "plus": "+",
+  "-": "-", "−": "-", "minus": "-", "take away": "-",
+  "×": "×", "*": "×", "x": "×", "times": "×", "multiplied by": "×",
+  "÷": "÷", "/": "÷", "divided by": "÷",
+};
+
+const COMPARISON_OPPOSITES: Record<string, string> = {
+  ">": "<", "<": ">", "greater": "less", "less": "greater", "more": "fewer", "fewer": "more",
+  "bigger": "smaller", "smaller": "bigger", "larger": "smaller",
+};
+
+function extractOperation(questionText: string): Operation | null {
+  // Fractions are handled separately; "1/2 + 1/3" is not a division
+  if (/\d\s*\/\s*\d+\s*[+-]/.test(questionText)) return null;
+
+  const match = questionText.match(OPERATOR_PATTERN);
+  if (!match) return null;
+  return { left: Number(match[1]), operator: OPERATOR_WORDS[match[2].toLowerCase()], right: Number(match[3]) };
+}
+
+function apply(operator: Operator, a: number, b: number): number {
+  switch (operator) {
+    case "+": return a + b;
+    case "-": return a - b;
+    case "×": return a * b;
+    case "÷": return a / b;
+  }
+}
+
+// 52 - 27 answered as 35: each column subtracts the smaller digit from the larger
+function smallerFromLarger(a: number, b: number): number {
+  const digitsA = String(a).split("").reverse();
+  const digitsB = String(b).split("").reverse();
+  const columns = Math.max(digitsA.length, digitsB.length);
+  let result = "";
+  for (let i = 0; i < columns; i++) {
+    result = Math.abs(Number(digitsA[i] ?? 0) - Number(digitsB[i] ?? 0)) + result;
+  }
+  return Number(result);
+}
+
+// Column arithmetic that never carries or borrows between columns: 45 + 38
+// answered as 73, each column's sum written without its ten, or 53 - 27
+// answered as 36, the ten borrowed never taken from the next column. The
+// leftmost column of a sum is written in full.
+function withoutCarrying(operator: "+" | "-", a: number, b: number): number {
+  const digitsA = String(a).split("").reverse().map(Number);
+  const digitsB = String(b).split("").reverse().map(Number);
+  const columns = Math.max(digitsA.length, digitsB.length);
+  let result = "";
+  for (let i = 0; i < columns; i++) {
+    const top = digitsA[i] ?? 0;
+    const bottom = digitsB[i] ?? 0;
+    const column = operator === "+"
+      ? (i === columns - 1 ? top + bottom : (top + bottom) % 10)
+      : (top >= bottom ? top - bottom : top + 10 - bottom);
+    result = column + result;
+  }
+  return Number(result);
+}
+
+function isDigitReversal(user: string, correct: string): boolean {
+  return /^\d{2,}$/.test(user) && user !== correct && user === correct.split("").reverse().join("");
+}
+
+export function classifyError(response: ClassifiableResponse): Misconception | null {
+  if (response.isCorrect) return null;
+
+  const userText = response.userAnswer.trim().toLowerCase().replace(/,/g, "");
+  const correctText = response.correctAnswer.trim().toLowerCase().replace(/,/g, "");
+
+  const opposite = COMPARISON_OPPOSITES[correctText];
+  if (opposite && (COMPARISON_OPPOSITES[userText] === correctText || userText === opposite)) {
+    return "comparison-reversal";
+  }
+
+  const user = parseNumericAnswer(response.userAnswer);
+  const correct = parseNumericAnswer(response.correctAnswer);
+  if (user === null || correct === null) return "unclassified";
+
+  // Picked the other number in a "which is larger/smaller" question
+  const questionNumbers = (response.questionText.match(/\d+(?:\.\d+)?/g) || []).map(Number);
+  if (
+    /\b(larger|largest|bigger|biggest|greater|greatest|more|smaller|smallest|less|least|fewer)\b/i.test(response.questionText) &&
+    questionNumbers.includes(user) &&
+    questionNumbers.includes(correct)
+  ) {
+    return "comparison-reversal";
+  }
+
+  if (isDigitReversal(String(user), String(correct))) return "digit-reversal";
+
+  const fractionSum = response.questionText.match(/(\d+)\s*\/\s*(\d+)\s*\+\s*(\d+)\s*\/\s*(\d+)/);
+  const userFraction = userText.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (fractionSum && userFraction) {
+    const [, a, b, c, d] = fractionSum.map(Number);
+    if (Number(userFraction[1]) === a + c && Number(userFraction[2]) === b + d) return "fraction-add-across";
+  }
+
+  const operation = extractOperation(response.questionText);
+  if (operation) {
+    const { left, operator, right } = operation;
+    if (user === Number(`${left}${right}`) || user === Number(`${right}${left}`)) return "operand-concatenation";
+
+    const otherResults = (["+", "-", "×", "÷"] as Operator[])
+      .filter((op) => op !== operator)
+      .flatMap((op) => [apply(op, left, right), apply(op, right, left)]);
+    if (otherResults.includes(user)) return "wrong-operation";
+
+    if (operator === "-" && left >= 10 && user === smallerFromLarger(left, right)) return "smaller-from-larger";
+
+    if (
+      (operator === "+" || (operator === "-" && left >= right)) &&
+      Number.isInteger(left) && Number.isInteger(right) &&
+      user === withoutCarrying(operator, left, right)
+    ) {
+      return "dropped-carry";
+    }
+  }
+
+  if (correct !== 0 && [10, 100, 0.1, 0.01].some((factor) => Math.abs(user - correct * factor) < 1e-9)) {
+    return "place-value-shift";
+  }
+
+  if (Math.abs(user - correct) === 1) return "off-by-one";
+  if (questionNumbers.includes(user)) return "operand-echo";
+
+  return "unclassified";
+}
+
+// Counts misconceptions per construct for the blocker report
+export function summarizeMisconceptions(
+  responses: { construct: string; misconception?: string | null }[]
+): Record<string, Partial<Record<Misconception, number>>> {
+  return responses.reduce((acc, r) => {
+    if (!r.misconception) return acc;
+    if (!acc[r.construct]) acc[r.construct] = {};
+    const key = r.misconception as Misconception;
+    acc[r.construct][key] = (acc[r.construct][key] || 0) + 1;
+    return acc;
+  }, {} as Record<string, Partial<Record<Misconception, number>>>);
+}
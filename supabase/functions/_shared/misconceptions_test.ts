@@ -0,0 +1,56 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { classifyError, summarizeMisconceptions } from "./misconceptions.ts";
+
+function classify(questionText: string, userAnswer: string, correctAnswer: string) {
+  return classifyError({ questionText, userAnswer, correctAnswer, isCorrect: false });
+}
+
+Deno.test("the examples of the taxonomy are classified", () => {
+  assertEquals(classify("Write the number twelve in digits.", "21", "12"), "digit-reversal");
+  assertEquals(classify("What is 5 + 7?", "11", "12"), "off-by-one");
+  assertEquals(classify("What is 5 × 7?", "57", "35"), "operand-concatenation");
+});
+
+Deno.test("dropped carries and borrows are classified", () => {
+  assertEquals(classify("What is 45 + 38?", "73", "83"), "dropped-carry");
+  assertEquals(classify("What is 95 + 38?", "123", "133"), "dropped-carry");
+  assertEquals(classify("What is 53 - 27?", "36", "26"), "dropped-carry");
+  assertEquals(classify("What is 432 - 158?", "384", "274"), "dropped-carry");
+});
+
+Deno.test("subtracting the smaller digit from the larger is told apart from a dropped borrow", () => {
+  assertEquals(classify("What is 53 - 27?", "34", "26"), "smaller-from-larger");
+  // 52 - 27 gives 35 both ways; the older reading wins
+  assertEquals(classify("What is 52 - 27?", "35", "25"), "smaller-from-larger");
+});
+
+Deno.test("other error patterns are classified", () => {
+  assertEquals(classify("What is 8 + 4?", "4", "12"), "wrong-operation");
+  assertEquals(classify("What is 8 + 4?", "32", "12"), "wrong-operation");
+  assertEquals(classify("What is 1/2 + 1/3?", "2/5", "5/6"), "fraction-add-across");
+  assertEquals(classify("What is 6 × 10?", "600", "60"), "place-value-shift");
+  assertEquals(classify("Which is larger, 0.5 or 0.25?", "0.25", "0.5"), "comparison-reversal");
+  assertEquals(classify("Is 7 greater or less than 3?", "less", "greater"), "comparison-reversal");
+  assertEquals(classify("There are 9 birds and 4 fly away. How many are left?", "9", "5"), "operand-echo");
+});
+
+Deno.test("answers that fit no pattern are unclassified", () => {
+  assertEquals(classify("What is 45 + 38?", "60", "83"), "unclassified");
+  assertEquals(classify("What is 45 + 38?", "blue", "83"), "unclassified");
+});
+
+Deno.test("correct answers have no misconception", () => {
+  assertEquals(classifyError({ questionText: "What is 45 + 38?", userAnswer: "83", correctAnswer: "83", isCorrect: true }), null);
+});
+
+Deno.test("misconceptions are counted per construct", () => {
+  assertEquals(
+    summarizeMisconceptions([
+      { construct: "Addition", misconception: "dropped-carry" },
+      { construct: "Addition", misconception: "dropped-carry" },
+      { construct: "Addition", misconception: null },
+      { construct: "Subtraction", misconception: "smaller-from-larger" },
+    ]),
+    { "Addition": { "dropped-carry": 2 }, "Subtraction": { "smaller-from-larger": 1 } }
+  );
+});
@@ -0,0 +1,160 @@
+import { parseNumericAnswer } from "./scoring.ts";
+import type { NumberLineQuestion, PublicQuestion } from "./items.ts";
+
+// Built-in number line estimation task. The child places numbers on 0-10,
+// 0-100 and 0-1000 lines; accuracy is summarised as percent absolute error
+// (PAE) and the placements are fitted with a linear and a logarithmic model.
+// Children whose placements follow the logarithmic curve - spreading small
+// numbers out and crowding large ones together - have not yet built a linear
+// mental number line, a hallmark of weak number sense.
+
+export interface NumberLineBand {
+  minAge: number;
+  // Lines given to this age band, with the level they count as for the
+  // adaptive engine and the numbers to place (in presentation order)
+  lines: { max: number; difficultyLevel: number; targets: number[] }[];
+}
+
+export interface NumberLineConfig {
+  bands: NumberLineBand[];
+  // Share of the line's range within which a placement counts as correct
+  tolerance: number;
+  // Minimum placements before representation models are fitted
+  minPlacementsForFit: number;
+}
+
+// Targets follow the standard Siegler & Opfer sets, oversampling the low end
+// of each line where linear and logarithmic placements differ most
+export const NUMBER_LINE_CONFIG: NumberLineConfig = {
+  bands: [
+    {
+      minAge: 9,
+      lines: [
+        { max: 100, difficultyLevel: 2, targets: [6, 72, 18, 43] },
+        { max: 1000, difficultyLevel: 3, targets: [34, 722, 150, 486] },
+      ],
+    },
+    {
+      minAge: 7,
+      lines: [
+        { max: 10, difficultyLevel: 2, targets: [3, 8] },
+        { max: 100, difficultyLevel: 3, targets: [4, 61, 17, 84, 29, 48] },
+      ],
+    },
+    {
+      minAge: 0,
+      lines: [{ max: 10, difficultyLevel: 3, targets: [2, 7, 1, 5, 9, 4, 6, 3] }],
+    },
+  ],
+  tolerance: 0.1,
+  minPlacementsForFit: 4,
+};
+
+export interface Placement {
+  max: number;
+  target: number;
+  estimate: number;
+}
+
+export interface ModelFit {
+  slope: number;
+  intercept: number;
+  r2: number;
+}
+
+export interface NumberLineEstimation {
+  placements: Placement[];
+  // Mean percent absolute error across all placements, and per line length
+  pae: number | null;
+  paeByScale: Record<string, number>;
+  linear: ModelFit | null;
+  logarithmic: ModelFit | null;
+  bestFit: "linear" | "logarithmic" | null;
+}
+
+export function numberLineTask(age: number, config: NumberLineConfig = NUMBER_LINE_CONFIG): NumberLineQuestion[] {
+  const band = config.bands.find((b) => age >= b.minAge) ?? config.bands[config.bands.length - 1];
+
+  return band.lines.flatMap((line) =>
+    line.targets.map((target) => ({
+      itemType: "number-line" as const,
+      questionText: `Where does ${target} go on this number line?`,
+      correctAnswer: String(target),
+      construct: "Number Sense",
+      difficultyLevel: line.difficultyLevel,
+      min: 0,
+      max: line.max,
+      target,
+      tolerance: config.tolerance,
+    }))
+  );
+}
+
+// Pairs answered number line items (starting at 0) with their placements.
+// The target is read from the answer key returned once the item is scored.
+export function collectPlacements(
+  questions: PublicQuestion[],
+  answers: { questionNumber: number; userAnswer: string; correctAnswer: string }[]
+): Placement[] {
+  return answers.flatMap((answer) => {
+    const question = questions[answer.questionNumber - 1];
+    if (question?.itemType !== "number-line" || question.min !== 0) return [];
+
+    const estimate = parseNumericAnswer(answer.userAnswer);
+    const target = parseNumericAnswer(answer.correctAnswer);
+    return estimate === null || target === null ? [] : [{ max: question.max, target, estimate }];
+  });
+}
+
+export function percentAbsoluteError(placement: Placement): number {
+  return (Math.abs(placement.estimate - placement.target) / placement.max) * 100;
+}
+
+// Ordinary least squares of y on x
+function fitLine(xs: number[], ys: number[]): ModelFit | null {
+  const n = xs.length;
+  const meanX = xs.reduce((s, x) => s + x, 0) / n;
+  const meanY = ys.reduce((s, y) => s + y, 0) / n;
+  const sxx = xs.reduce((s, x) => s + (x - meanX) ** 2, 0);
+  const sxy = xs.reduce((s, x, i) => s + (x - meanX) * (ys[i] - meanY), 0);
+  const syy = ys.reduce((s, y) => s + (y - meanY) ** 2, 0);
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const r2 = syy === 0 ? 0 : (sxy * sxy) / (sxx * syy);
+  return { slope, intercept, r2 };
+}
+
+// Placements from lines of different lengths are pooled as proportions of
+// the line. The logarithmic predictor is ln(target) / ln(max), which also
+// runs from 0 to 1 across the line.
+export function analyzeNumberLine(placements: Placement[], config: NumberLineConfig = NUMBER_LINE_CONFIG): NumberLineEstimation {
+  const empty: NumberLineEstimation = { placements, pae: null, paeByScale: {}, linear: null, logarithmic: null, bestFit: null };
+  if (placements.length === 0) return empty;
+
+  const errors = placements.map(percentAbsoluteError);
+  const pae = errors.reduce((s, e) => s + e, 0) / errors.length;
+
+  const byScale = placements.reduce((acc, p, i) => {
+    if (!acc[p.max]) acc[p.max] = [];
+    acc[p.max].push(errors[i]);
+    return acc;
+  }, {} as Record<string, number[]>);
+  const paeByScale = Object.fromEntries(
+    Object.entries(byScale).map(([scale, e]) => [scale, e.reduce((s, x) => s + x, 0) / e.length])
+  );
+
+  // ln(0) is undefined, so the model comparison only uses positive targets
+  const fitted = placements.filter((p) => p.target >= 1 && p.max > 1);
+  if (fitted.length < config.minPlacementsForFit) return { ...empty, pae, paeByScale };
+
+  const ys = fitted.map((p) => p.estimate / p.max);
+  const linear = fitLine(fitted.map((p) => p.target / p.max), ys);
+  const logarithmic = fitLine(fitted.map((p) => Math.log(p.target) / Math.log(p.max)), ys);
+  const bestFit = linear && logarithmic
+    ? (logarithmic.r2 > linear.r2 ? "logarithmic" : "linear")
+    : null;
+
+  return { placements, pae, paeByScale, linear, logarithmic, bestFit };
+}
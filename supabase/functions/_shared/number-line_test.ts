@@ -0,0 +1,71 @@
+import { assert, assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { analyzeNumberLine, collectPlacements, numberLineTask, percentAbsoluteError, type Placement } from "./number-line.ts";
+import type { PublicQuestion } from "./items.ts";
+
+const TARGETS = [4, 61, 17, 84, 29, 48, 6, 72];
+
+Deno.test("percent absolute error is the distance from the target as a share of the line", () => {
+  assertEquals(percentAbsoluteError({ max: 100, target: 40, estimate: 50 }), 10);
+  assertEquals(percentAbsoluteError({ max: 1000, target: 500, estimate: 450 }), 5);
+  assertEquals(percentAbsoluteError({ max: 10, target: 3, estimate: 3 }), 0);
+});
+
+Deno.test("PAE is averaged over every placement and per line length", () => {
+  const estimation = analyzeNumberLine([
+    { max: 10, target: 3, estimate: 4 },
+    { max: 10, target: 8, estimate: 8 },
+    { max: 100, target: 50, estimate: 20 },
+  ]);
+  assertAlmostEquals(estimation.pae!, (10 + 0 + 30) / 3);
+  assertEquals(estimation.paeByScale, { "10": 5, "100": 30 });
+});
+
+Deno.test("accurate placements fit the linear model", () => {
+  const placements: Placement[] = TARGETS.map((target) => ({ max: 100, target, estimate: target + (target % 3) - 1 }));
+  const estimation = analyzeNumberLine(placements);
+  assertEquals(estimation.bestFit, "linear");
+  assert(estimation.linear!.r2 > 0.99);
+});
+
+Deno.test("placements that spread small numbers out fit the logarithmic model", () => {
+  const placements: Placement[] = TARGETS.map((target) => ({
+    max: 100,
+    target,
+    estimate: Math.round((Math.log(target) / Math.log(100)) * 100),
+  }));
+  const estimation = analyzeNumberLine(placements);
+  assertEquals(estimation.bestFit, "logarithmic");
+  assert(estimation.logarithmic!.r2 > estimation.linear!.r2);
+});
+
+Deno.test("too few placements report PAE without fitting a model", () => {
+  const estimation = analyzeNumberLine([
+    { max: 100, target: 20, estimate: 25 },
+    { max: 100, target: 70, estimate: 60 },
+  ]);
+  assertEquals(estimation.pae, 7.5);
+  assertEquals(estimation.bestFit, null);
+  assertEquals(estimation.linear, null);
+});
+
+Deno.test("no placements give no estimate", () => {
+  assertEquals(analyzeNumberLine([]).pae, null);
+});
+
+Deno.test("each age band gets its own lines", () => {
+  assertEquals([...new Set(numberLineTask(5).map((item) => item.max))], [10]);
+  assertEquals([...new Set(numberLineTask(7).map((item) => item.max))], [10, 100]);
+  assertEquals([...new Set(numberLineTask(12).map((item) => item.max))], [100, 1000]);
+});
+
+Deno.test("placements are read from answered number line items only", () => {
+  const questions = [
+    { itemType: "number-line", questionText: "Where does 7 go?", construct: "Number Sense", difficultyLevel: 3, min: 0, max: 10 },
+    { itemType: "free-text", questionText: "What is 2 + 2?", construct: "Addition", difficultyLevel: 1 },
+  ] as PublicQuestion[];
+  const placements = collectPlacements(questions, [
+    { questionNumber: 1, userAnswer: "6.5", correctAnswer: "7" },
+    { questionNumber: 2, userAnswer: "4", correctAnswer: "4" },
+  ]);
+  assertEquals(placements, [{ max: 10, target: 7, estimate: 6.5 }]);
+});
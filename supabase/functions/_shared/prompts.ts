@@ -0,0 +1,293 @@
+// Versioned prompt templates. A template renders the messages sent to the
+// model from a plain input object; the name, version and input are stored
+// with everything generated, so any output can be traced to the exact prompt
+// and reproduced. Bump a template's version whenever its text changes.
+
+import type { ChatMessage } from "./llm-providers.ts";
+import type { Question } from "./items.ts";
+import { readingLimits } from "./readability.ts";
+
+export interface PromptTemplate<Input> {
+  name: string;
+  version: number;
+  temperature: number;
+  render(input: Input): ChatMessage[];
+}
+
+// Item types the diagnostic can render, and the extra fields each one needs
+const itemTypesPrompt = (guidance: string) => `"itemType" is one of the following. ${guidance}:
+- "free-text": the student types the answer. No extra fields.
+- "multiple-choice": add "options": an array of 3-4 answer strings, one of which is exactly the correctAnswer.
+- "number-line": the student places a number on an unlabelled line. Add "min", "max" (e.g. 0 and 10, 100 or 1000) and "target" (the number to place, between min and max). correctAnswer is the target.
+- "dot-comparison": two sets of dots are shown side by side. Add "leftCount" and "rightCount" (different, 1-36) and "ask" ("more" or "fewer"). questionText asks which box has more (or fewer) dots; correctAnswer is "left" or "right".
+- "ordering": the student drags items into order. Add "items" (2-6 distinct strings, shuffled) and "correctOrder" (the same strings in the correct order). questionText says what order to use; correctAnswer can repeat correctOrder joined by " | ".`;
+
+// Many of the students read behind their age; items are rejected when they
+// exceed these limits (see readability.ts)
+const readingPrompt = (age: number) => {
+  const limits = readingLimits(age);
+  return `Write for a weak reader. Use at most ${limits.maxWordsPerSentence} words per sentence and ${limits.maxWords} words in all, with short everyday words; the question must test maths, not reading. Keep every item safe for children and free of holidays, religions, foods or customs tied to one culture.`;
+};
+
+export interface QuestionPromptInput {
+  age: number;
+  itemCount: number;
+  // Constructs of the items the student got wrong so far
+  struggledWith: string[];
+  construct?: string;
+  difficultyLevel?: number;
+}
+
+export const QUESTION_PROMPT: PromptTemplate<QuestionPromptInput> = {
+  name: "generate-question",
+  version: 2,
+  temperature: 0.7,
+  render: ({ age, itemCount, struggledWith, construct, difficultyLevel }) => {
+    // Adapt to the error history
+    const errorContext = struggledWith.length > 0
+      ? `The student has struggled with: ${struggledWith.join(', ')}. Adjust difficulty accordingly.`
+      : '';
+
+    // The adaptive engine asks for a specific construct and difficulty per item
+    const targetContext = construct
+      ? `Every question MUST test the "${construct}" construct${difficultyLevel ? ` at difficulty level ${difficultyLevel} (1 = easiest, 5 = hardest, relative to the student's age)` : ''}.`
+      : '';
+
+    const system = `You are a dyscalculia diagnostic expert. Generate ${itemCount} adaptive math question${itemCount > 1 ? 's' : ''} for a ${age}-year-old student.
+
+${errorContext}
+${targetContext}
+
+Each question should test one of these mathematical constructs:
+- Number Sense (magnitude comparison, number line understanding)
+- Place Value (understanding tens, hundreds, etc.)
+- Basic Arithmetic (addition, subtraction appropriate for age)
+- Pattern Recognition
+- Spatial Reasoning
+- Working Memory (multi-step problems)
+
+Return ONLY a JSON object with this exact structure, with ${itemCount} question${itemCount > 1 ? 's' : ''} in the array:
+{
+  "questions": [
+    {
+      "itemType": "free-text",
+      "questionText": "Clear question text",
+      "correctAnswer": "The correct answer",
+      "construct": "Construct being tested",
+      "difficultyLevel": 1-5
+    }
+  ]
+}
+
+${itemTypesPrompt("Prefer the non-text types for younger students and for magnitude questions")}
+
+${readingPrompt(age)}
+
+Make sure questions vary in difficulty and test different constructs.`;
+
+    return [
+      { role: "system", content: system },
+      { role: "user", content: `Generate a diagnostic math question for age ${age}.` },
+    ];
+  },
+};
+
+export interface ConfirmatoryPromptInput {
+  age: number;
+  // Items still needed per blocker, in plan order
+  remaining: { name: string; count: number }[];
+}
+
+export const CONFIRMATORY_PROMPT: PromptTemplate<ConfirmatoryPromptInput> = {
+  name: "generate-confirmatory-test",
+  version: 2,
+  temperature: 0.7,
+  render: ({ age, remaining }) => {
+    const remainingTotal = remaining.reduce((sum, b) => sum + b.count, 0);
+    const planText = remaining.map((b, i) => `${i + 1}. ${b.count} questions targeting "${b.name}"`).join('\n');
+
+    const system = `You are a dyscalculia diagnostic expert. Generate ${remainingTotal} confirmatory test questions for a ${age}-year-old student, in this order:
+${planText}
+
+These questions should deeply probe each specific deficit area to confirm or rule out the diagnosis.
+
+Return ONLY a JSON object whose "questions" array holds ${remainingTotal} questions in the order above, with this exact structure:
+{
+  "questions": [
+    {
+      "itemType": "free-text",
+      "questionText": "Clear question text",
+      "correctAnswer": "The correct answer",
+      "construct": "The construct this question targets, exactly as named above",
+      "difficultyLevel": 1-5
+    }
+  ]
+}
+
+${itemTypesPrompt("Vary the types so a deficit is not confused with difficulty reading or typing")}
+
+${readingPrompt(age)}`;
+
+    return [
+      { role: "system", content: system },
+      { role: "user", content: `Generate ${remainingTotal} confirmatory questions for ${remaining.map((b) => b.name).join(', ')}.` },
+    ];
+  },
+};
+
+export interface SimplifyPromptInput {
+  age: number;
+  // Items that are too hard to read, with what is wrong with each
+  items: { item: Question; problems: string[] }[];
+}
+
+export const SIMPLIFY_PROMPT: PromptTemplate<SimplifyPromptInput> = {
+  name: "simplify-items",
+  version: 1,
+  temperature: 0.3,
+  render: ({ age, items }) => {
+    const limits = readingLimits(age);
+    const listing = items
+      .map(({ item, problems }, i) => `${i + 1}. ${JSON.stringify(item)}\n   Problems: ${problems.join("; ")}`)
+      .join("\n");
+
+    const system = `You rewrite maths questions for a ${age}-year-old who finds reading hard. Keep the maths exactly the same: the same numbers, the same itemType, the same correctAnswer and every other field unchanged. Only reword questionText (and options or items if they contain words) so it has at most ${limits.maxWordsPerSentence} words per sentence, ${limits.maxWords} words in all, and uses short everyday words.
+
+Return ONLY a JSON object {"questions": [...]} with the rewritten questions in the order given, each with all of its original fields.`;
+
+    return [
+      { role: "system", content: system },
+      { role: "user", content: `Simplify these questions:\n${listing}` },
+    ];
+  },
+};
+
+export interface RoadmapPromptBlocker {
+  blocker_name: string;
+  blocker_type: string;
+  error_count: number;
+  confidence: number | null;
+  is_confirmed: boolean | null;
+  misconceptions: Record<string, number>;
+}
+
+// A catalog resource the roadmap may recommend
+export interface RoadmapPromptResource {
+  id: string;
+  name: string;
+  kind: string;
+  cost: string;
+  description: string;
+  constructs: string[];
+}
+
+export interface RoadmapPromptInput {
+  age: number;
+  blockers: RoadmapPromptBlocker[];
+  // The only resources the roadmap may recommend, retrieved for the blockers and age
+  catalog: RoadmapPromptResource[];
+  responseCount: number;
+  // Steps already written when a dropped stream is continued
+  completedSteps: unknown[];
+}
+
+function blockersText(blockers: RoadmapPromptBlocker[]): string {
+  return blockers.map((b) => {
+    const evidence = b.blocker_type === 'fluency'
+      ? 'accurate but slow, effortful retrieval'
+      : `${b.error_count} errors, ${Math.round((b.confidence ?? 0) * 100)}% probability of a deficit`;
+    const status = b.is_confirmed ? 'confirmed' : 'suspected, not yet confirmed';
+    const misconceptions = Object.entries(b.misconceptions ?? {})
+      .filter(([category]) => category !== 'unclassified')
+      .map(([category, count]) => `${category.replace(/-/g, ' ')} x${count}`)
+      .join(', ');
+    return `${b.blocker_name} (${evidence}; ${status}${misconceptions ? `; observed misconceptions: ${misconceptions}` : ''})`;
+  }).join(', ');
+}
+
+function catalogText(catalog: RoadmapPromptResource[]): string {
+  return catalog.length > 0
+    ? catalog.map((r) => `- ${r.id}: ${r.name} (${r.kind}, ${r.cost}; for ${r.constructs.join(', ')}). ${r.description}`).join('\n')
+    : '(no resources in the catalog suit this student; leave "resources" empty)';
+}
+
+export const ROADMAP_PROMPT: PromptTemplate<RoadmapPromptInput> = {
+  name: "generate-roadmap",
+  version: 2,
+  temperature: 0.7,
+  render: ({ age, blockers, catalog, responseCount, completedSteps }) => {
+    const resumeFrom = completedSteps.length + 1;
+
+    const system = `You are an expert dyscalculia remediation specialist. Based on the diagnostic test results, create a personalized 5-step remediation roadmap.
+
+Student Profile:
+- Age: ${age} years old
+- Detected Blockers: ${blockersText(blockers)}
+- Total Test Responses: ${responseCount}
+
+Where misconceptions were observed, target those specific misconceptions rather than the construct in general.
+
+Create a comprehensive, actionable 5-step roadmap. Each step must include:
+1. A clear, actionable goal title
+2. Detailed execution plan (day-wise or weekly breakdown)
+3. Resources chosen ONLY from the catalog below, referred to by id, each with a short note on how the step uses it. Never recommend anything that is not in the catalog.
+
+Resource catalog (id: name):
+${catalogText(catalog)}
+
+Write the roadmap as JSON Lines: one complete JSON object per line, with no other text, no code fences and no blank lines. ${resumeFrom > 1 ? '' : `The first line is the summary:
+{"type": "summary", "overallSeverity": "none" | "mild" | "moderate" | "severe", "summary": "Brief assessment summary"}
+`}Then one line per step${resumeFrom > 1 ? `, starting at step ${resumeFrom}` : ''}:
+{"type": "step", "stepNumber": 1, "title": "Actionable goal title", "executionPlan": "Detailed day-wise/weekly plan", "resources": [{"resourceId": "catalog-id", "use": "How this step uses it"}]}
+${resumeFrom > 1 ? `
+The summary and these steps were already written; do not repeat them, continue from step ${resumeFrom}:
+${JSON.stringify(completedSteps)}` : ''}`;
+
+    return [
+      { role: "system", content: system },
+      { role: "user", content: "Generate the personalized remediation roadmap." },
+    ];
+  },
+};
+
+export interface RoadmapRevisionPromptInput {
+  age: number;
+  blockers: RoadmapPromptBlocker[];
+  catalog: RoadmapPromptResource[];
+  // The roadmap as it stands, with any edits the teacher made by hand
+  roadmap: unknown;
+  stepNumbers: number[];
+  feedback: string;
+}
+
+// Rewrites the steps the teacher chose, following their feedback
+export const ROADMAP_REVISION_PROMPT: PromptTemplate<RoadmapRevisionPromptInput> = {
+  name: "revise-roadmap",
+  version: 1,
+  temperature: 0.5,
+  render: ({ age, blockers, catalog, roadmap, stepNumbers, feedback }) => {
+    const steps = stepNumbers.join(', ');
+
+    const system = `You are an expert dyscalculia remediation specialist revising a remediation roadmap for a ${age}-year-old at their teacher's request.
+
+Detected Blockers: ${blockersText(blockers)}
+
+The current roadmap:
+${JSON.stringify(roadmap)}
+
+Rewrite only step${stepNumbers.length > 1 ? 's' : ''} ${steps}, following the teacher's feedback. The teacher knows the child; their feedback overrides anything in the current roadmap. Keep each rewritten step's stepNumber, keep it consistent with the steps you are not rewriting, and do not repeat what another step already covers.
+
+Resources must be chosen ONLY from the catalog below, referred to by id, each with a short note on how the step uses it. Never recommend anything that is not in the catalog.
+
+Resource catalog (id: name):
+${catalogText(catalog)}
+
+Write the rewritten steps as JSON Lines: one complete JSON object per line, with no other text, no code fences and no blank lines:
+{"type": "step", "stepNumber": ${stepNumbers[0] ?? 1}, "title": "Actionable goal title", "executionPlan": "Detailed day-wise/weekly plan", "resources": [{"resourceId": "catalog-id", "use": "How this step uses it"}]}`;
+
+    return [
+      { role: "system", content: system },
+      { role: "user", content: `Teacher's feedback on step${stepNumbers.length > 1 ? 's' : ''} ${steps}: ${feedback}` },
+    ];
+  },
+};
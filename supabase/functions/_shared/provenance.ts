@@ -0,0 +1,88 @@
+// Provenance records in generation_provenance: for each batch of generated
+// items or roadmap, what produced it. Model output is recorded with the
+// prompt template, its input and the provider settings; items from the
+// seeded generators with the inputs the generator was given. Items in the
+// pool keep the record of the request that generated them.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { activeModel } from "./llm-providers.ts";
+import type { PromptTemplate } from "./prompts.ts";
+import type { QuotaKind } from "./quotas.ts";
+
+// Pooled items are generated for no test in particular
+export type ProvenanceKind = QuotaKind | "pool";
+
+interface ProvenanceBase {
+  // Null for pooled items
+  testId: string | null;
+  kind: ProvenanceKind;
+  // The items covered; empty for a roadmap
+  questionNumbers: number[];
+  functionName: string;
+  functionVersion: number;
+}
+
+export interface ModelProvenance<Input> extends ProvenanceBase {
+  source: "model";
+  template: PromptTemplate<Input>;
+  input: Input;
+  rawOutputs: string[];
+}
+
+export interface LocalProvenance extends ProvenanceBase {
+  source: "local";
+  input: Record<string, unknown>;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Identical prompts sent to the same model with the same settings hash alike
+export function hashInput(value: unknown): Promise<string> {
+  return sha256(JSON.stringify(value));
+}
+
+// Stores the record and returns its id
+export async function recordProvenance<Input>(
+  admin: SupabaseClient,
+  record: ModelProvenance<Input> | LocalProvenance
+): Promise<string> {
+  const base = {
+    test_id: record.testId,
+    kind: record.kind,
+    question_numbers: record.questionNumbers,
+    source: record.source,
+    function_name: record.functionName,
+    function_version: record.functionVersion,
+    input: record.input,
+  };
+
+  let row;
+  if (record.source === "model") {
+    const { provider, model } = activeModel();
+    const { template } = record;
+    row = {
+      ...base,
+      provider,
+      model,
+      temperature: template.temperature,
+      prompt_name: template.name,
+      prompt_version: template.version,
+      input_hash: await hashInput({ messages: template.render(record.input), model, temperature: template.temperature }),
+      raw_outputs: record.rawOutputs,
+    };
+  } else {
+    row = { ...base, input_hash: await hashInput(record.input) };
+  }
+
+  const { data, error } = await admin
+    .from("generation_provenance")
+    .insert(row)
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
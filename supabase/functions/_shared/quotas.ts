@@ -0,0 +1,92 @@
+// Per-teacher daily quotas on AI generation. Question sets are counted by the
+// items asked of the AI service and roadmaps by the roadmaps generated,
+// however many validation rounds they take; the counts reset at midnight UTC.
+// Items the AI service failed to provide are refunded.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type QuotaKind = "question" | "confirmatory-test" | "roadmap";
+
+// Limits for teachers without their own row in generation_quotas. A test
+// takes up to ~30 questions, up to 15 confirmatory items with the refill batch
+// and one roadmap.
+export const DEFAULT_DAILY_QUOTAS: Record<QuotaKind, number> = {
+  "question": 600,
+  "confirmatory-test": 600,
+  "roadmap": 40,
+};
+
+export interface QuotaCheck {
+  allowed: boolean;
+  // False when nothing was counted, as the charge key was charged before
+  charged: boolean;
+  used: number;
+  limit: number;
+  // Seconds until the quota resets
+  retryAfter: number;
+}
+
+export function secondsUntilReset(now = new Date()): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+export interface QuotaCharge {
+  // Generations counted at once; none are counted unless all fit
+  amount?: number;
+  // Work charged under the same key is counted only the first time
+  chargeKey?: string;
+}
+
+export async function consumeQuota(
+  admin: SupabaseClient,
+  teacherId: string,
+  kind: QuotaKind,
+  { amount = 1, chargeKey }: QuotaCharge = {}
+): Promise<QuotaCheck> {
+  const { data, error } = await admin.rpc("consume_generation_quota", {
+    p_teacher_id: teacherId,
+    p_kind: kind,
+    p_default_limit: DEFAULT_DAILY_QUOTAS[kind],
+    p_amount: amount,
+    p_charge_key: chargeKey ?? null,
+  });
+
+  if (error) throw error;
+  const [result] = data as { allowed: boolean; charged: boolean; used: number; daily_limit: number }[];
+  return {
+    allowed: result.allowed,
+    charged: result.charged,
+    used: result.used,
+    limit: result.daily_limit,
+    retryAfter: secondsUntilReset(),
+  };
+}
+
+// Gives back a charge that consumeQuota counted, for work that fell through
+export async function refundQuota(
+  admin: SupabaseClient,
+  teacherId: string,
+  kind: QuotaKind,
+  { amount = 1, chargeKey }: QuotaCharge = {}
+): Promise<void> {
+  const { error } = await admin.rpc("refund_generation_quota", {
+    p_teacher_id: teacherId,
+    p_kind: kind,
+    p_amount: amount,
+    p_charge_key: chargeKey ?? null,
+  });
+
+  if (error) throw error;
+}
+
+// The body of the 429 sent when a quota is used up
+export function quotaExceededBody(kind: QuotaKind, check: QuotaCheck) {
+  return {
+    error: `Daily ${kind} generation limit of ${check.limit} reached.`,
+    code: "quota_exceeded",
+    kind,
+    limit: check.limit,
+    retryAfter: check.retryAfter,
+  };
+}
@@ -0,0 +1,49 @@
+// Seeded pseudo-random numbers. Anything that has to come out the same way
+// twice - a generated test form, a dot layout - draws from these instead of
+// Math.random.
+
+export type Rng = () => number;
+
+// mulberry32: fast, well distributed, and identical in every JS engine
+export function seededRandom(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Combines numbers and strings into a single 32-bit seed (FNV-1a)
+export function hashSeed(...parts: (string | number)[]): number {
+  let hash = 0x811c9dc5;
+  for (const char of parts.join("|")) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function newSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Integer in [min, max]
+export function randomInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+export function pick<T>(rng: Rng, items: readonly T[]): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+export function shuffle<T>(rng: Rng, items: readonly T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,192 @@
+// Reading load and content screening for items. Many children assessed for
+// dyscalculia also struggle to read, so a word problem that is long or uses
+// hard words tests reading instead of maths. Items are held to limits for the
+// student's age on sentence length, length overall, reading grade and words
+// outside the maths vocabulary expected at that age, and screened for unsafe
+// or culturally loaded content.
+
+import type { Question } from "./items.ts";
+
+export interface Readability {
+  // Numerals are read at a glance and are not counted as words
+  words: number;
+  sentences: number;
+  wordsPerSentence: number;
+  syllablesPerWord: number;
+  // Flesch-Kincaid grade level, floored at 0, with the maths words the age's
+  // vocabulary covers counted as one syllable: a child is taught to read them
+  // in maths lessons, so "numbers" or "hundreds" is no harder than "cat"
+  gradeLevel: number;
+  // Words of three or more syllables, or maths terms from an older age, that
+  // the age's vocabulary does not cover
+  hardWords: string[];
+}
+
+export interface ReadingLimits {
+  maxWords: number;
+  maxWordsPerSentence: number;
+  maxGradeLevel: number;
+  maxHardWords: number;
+}
+
+// Kept below the reading level of the age, since the students this
+// diagnostic is for often read behind it
+const READING_LIMITS: { minAge: number; limits: ReadingLimits }[] = [
+  { minAge: 5, limits: { maxWords: 20, maxWordsPerSentence: 10, maxGradeLevel: 2, maxHardWords: 0 } },
+  { minAge: 7, limits: { maxWords: 30, maxWordsPerSentence: 12, maxGradeLevel: 3, maxHardWords: 1 } },
+  { minAge: 9, limits: { maxWords: 40, maxWordsPerSentence: 15, maxGradeLevel: 4.5, maxHardWords: 2 } },
+  { minAge: 11, limits: { maxWords: 50, maxWordsPerSentence: 18, maxGradeLevel: 6, maxHardWords: 3 } },
+  { minAge: 13, limits: { maxWords: 60, maxWordsPerSentence: 20, maxGradeLevel: 8, maxHardWords: 4 } },
+];
+
+// Maths words a child can be expected to read from the given age
+const MATHS_VOCABULARY: { minAge: number; words: string[] }[] = [
+  {
+    minAge: 5,
+    words: [
+      "number", "numbers", "count", "add", "plus", "minus", "take", "away", "equal", "equals", "altogether",
+      "total", "more", "fewer", "less", "biggest", "smallest", "largest", "circle", "square", "triangle",
+      "pattern", "next", "before", "after", "between", "tens", "ones", "another", "remember",
+      // Place names and shape and turn words are the vocabulary of the place
+      // value and spatial items, taught along with them at any age
+      "hundred", "hundreds", "thousand", "thousands", "digit", "digits", "value", "rectangle", "rectangles",
+      "quarter", "half", "turn", "clockwise", "anticlockwise",
+    ],
+  },
+  {
+    minAge: 7,
+    words: [
+      "subtract", "difference", "even", "odd", "estimate", "multiply", "sequence", "position", "remainder",
+      "triangles", "together", "remaining", "compare",
+    ],
+  },
+  {
+    minAge: 9,
+    words: [
+      "fraction", "fractions", "numerator", "denominator", "division", "divide",
+      "divided", "multiplication", "multiplied", "perimeter", "area", "decimal", "decimals", "hexagon",
+      "pentagon", "parallel", "symmetry", "symmetrical", "quadrilateral", "centimetres", "centimeters",
+      "kilograms", "kilometres", "kilometers", "calculate", "operation",
+    ],
+  },
+  {
+    minAge: 11,
+    words: [
+      "percentage", "percent", "ratio", "proportion", "negative", "integer", "integers", "average",
+      "probability", "equation", "coordinate", "coordinates", "variable", "expression", "approximately",
+      "millilitres", "milliliters", "diameter", "circumference", "radius",
+    ],
+  },
+];
+
+// Content that is not for children, or that assumes a culture, religion or
+// diet a child may not share
+const UNSAFE_TERMS = [
+  "kill", "killed", "gun", "shoot", "shot", "weapon", "bomb", "knife", "knives", "blood", "dead", "death",
+  "war", "beer", "wine", "alcohol", "drunk", "cigarette", "smoking", "drug", "casino", "gamble", "gambling",
+  "lottery", "bet", "betting", "sexy", "kiss", "dating", "diet", "dieting", "calorie", "skinny",
+];
+const CULTURALLY_LOADED_TERMS = [
+  "christmas", "easter", "diwali", "ramadan", "eid", "hanukkah", "thanksgiving", "halloween", "church",
+  "mosque", "temple", "synagogue", "pork", "bacon", "ham", "beef", "sausage",
+];
+
+export function readingLimits(age: number): ReadingLimits {
+  return [...READING_LIMITS].reverse().find((band) => age >= band.minAge)?.limits ?? READING_LIMITS[0].limits;
+}
+
+// Vowel groups, less a silent final e; numerals count as one syllable
+export function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!w) return 1;
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, "").replace(/^y/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+function wordsOf(text: string): string[] {
+  return text.match(/[A-Za-z]+(?:'[A-Za-z]+)?|\d+(?:[.,]\d+)*/g) ?? [];
+}
+
+function isNumeral(word: string): boolean {
+  return /^\d/.test(word);
+}
+
+function sentenceCount(text: string): number {
+  return Math.max(1, text.split(/[.!?]+(?:\s|$)/).filter((s) => wordsOf(s).length > 0).length);
+}
+
+function fleschKincaid(words: number, sentences: number, syllables: number): number {
+  if (words === 0) return 0;
+  const grade = 0.39 * (words / sentences) + 11.8 * (syllables / words) - 15.59;
+  return Math.round(Math.max(0, grade) * 10) / 10;
+}
+
+// Flesch-Kincaid grade of the text, the score stored with every item
+export function gradeLevel(text: string): number {
+  const words = wordsOf(text);
+  return fleschKincaid(words.length, sentenceCount(text), words.reduce((sum, word) => sum + countSyllables(word), 0));
+}
+
+export function readability(text: string, age: number): Readability {
+  const words = wordsOf(text);
+  const sentences = sentenceCount(text);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+
+  const known = new Set(MATHS_VOCABULARY.filter((v) => v.minAge <= age).flatMap((v) => v.words));
+  const later = new Set(MATHS_VOCABULARY.filter((v) => v.minAge > age).flatMap((v) => v.words));
+  const hardWords = [...new Set(words.map((w) => w.toLowerCase()))].filter(
+    (w) => /^[a-z]/.test(w) && !known.has(w) && (later.has(w) || countSyllables(w) >= 3)
+  );
+  const readSyllables = words.reduce((sum, word) => sum + (known.has(word.toLowerCase()) ? 1 : countSyllables(word)), 0);
+  const readWords = words.filter((word) => !isNumeral(word)).length;
+
+  return {
+    words: readWords,
+    sentences,
+    wordsPerSentence: Math.round((readWords / sentences) * 10) / 10,
+    syllablesPerWord: words.length > 0 ? Math.round((syllables / words.length) * 100) / 100 : 0,
+    gradeLevel: fleschKincaid(words.length, sentences, readSyllables),
+    hardWords,
+  };
+}
+
+// Everything a child reads in an item
+function itemText(item: Question): string {
+  const extras = item.itemType === "multiple-choice" ? item.options : item.itemType === "ordering" ? item.items : [];
+  return [item.questionText, ...extras].join(" ");
+}
+
+// Unsafe or culturally loaded terms in the item, singular or plural
+export function screenContent(item: Question): string[] {
+  const words = new Set(wordsOf(itemText(item)).map((w) => w.toLowerCase()));
+  const mentions = (term: string) => words.has(term) || words.has(`${term}s`);
+  return [
+    ...UNSAFE_TERMS.filter(mentions).map((term) => `unsafe content ("${term}")`),
+    ...CULTURALLY_LOADED_TERMS.filter(mentions).map((term) => `culturally loaded content ("${term}")`),
+  ];
+}
+
+export type ReadingCheck =
+  | { ok: true; readability: Readability }
+  | { ok: false; readability: Readability; problems: string[]; unsafe: boolean };
+
+// Whether a student of the given age can read the item, and whether it is
+// suitable at all. Items with unsafe content are never simplified.
+export function checkReading(item: Question, age: number): ReadingCheck {
+  const result = readability(item.questionText, age);
+  const limits = readingLimits(age);
+
+  const unsafe = screenContent(item);
+  const problems = [...unsafe];
+  if (result.words > limits.maxWords) problems.push(`${result.words} words (at most ${limits.maxWords})`);
+  if (result.wordsPerSentence > limits.maxWordsPerSentence) {
+    problems.push(`${result.wordsPerSentence} words per sentence (at most ${limits.maxWordsPerSentence})`);
+  }
+  if (result.gradeLevel > limits.maxGradeLevel) problems.push(`reading grade ${result.gradeLevel} (at most ${limits.maxGradeLevel})`);
+  if (result.hardWords.length > limits.maxHardWords) problems.push(`hard words: ${result.hardWords.join(", ")}`);
+
+  return problems.length === 0
+    ? { ok: true, readability: result }
+    : { ok: false, readability: result, problems, unsafe: unsafe.length > 0 };
+}
@@ -0,0 +1,96 @@
+// The catalog of vetted remediation resources in the resources table.
+// generate-roadmap retrieves the resources that fit the student's blockers and
+// age, lists them in the prompt, and keeps only the ids the model picks from
+// that list, so a roadmap never recommends something that is not in the
+// catalog.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CONSTRUCTS } from "./constructs.ts";
+import { canonicalConstruct } from "./item-validation.ts";
+import type { RoadmapResource } from "./roadmap.ts";
+import type { GeneratedRoadmapStep } from "./schemas.ts";
+
+export const RESOURCE_KINDS = ["intervention", "manipulative", "worksheet", "app"] as const;
+export const RESOURCE_COSTS = ["free", "low", "paid"] as const;
+
+// Resources offered to the model per blocker; enough to vary the steps
+// without crowding the prompt
+const RESOURCES_PER_CONSTRUCT = 6;
+
+export interface CatalogResource {
+  id: string;
+  name: string;
+  kind: string;
+  description: string;
+  url: string | null;
+  constructs: string[];
+  minAge: number;
+  maxAge: number;
+  cost: string;
+}
+
+// The resources suited to the age for each construct, free ones first. With
+// no constructs to work on, every construct is drawn from.
+export async function retrieveResources(
+  admin: SupabaseClient,
+  constructNames: string[],
+  age: number
+): Promise<CatalogResource[]> {
+  const named = constructNames.map(canonicalConstruct).filter((c): c is string => c !== null);
+  const constructs = named.length > 0 ? [...new Set(named)] : [...CONSTRUCTS];
+
+  const { data, error } = await admin
+    .from("resources")
+    .select("id, name, kind, description, url, constructs, min_age, max_age, cost")
+    .overlaps("constructs", constructs)
+    .lte("min_age", age)
+    .gte("max_age", age)
+    .order("id", { ascending: true });
+
+  if (error) throw error;
+
+  const costRank = (cost: string) => RESOURCE_COSTS.indexOf(cost as (typeof RESOURCE_COSTS)[number]);
+  const ranked = (data || [])
+    .map((row): CatalogResource => ({
+      id: row.id,
+      name: row.name,
+      kind: row.kind,
+      description: row.description,
+      url: row.url,
+      constructs: row.constructs,
+      minAge: row.min_age,
+      maxAge: row.max_age,
+      cost: row.cost,
+    }))
+    .sort((a, b) => costRank(a.cost) - costRank(b.cost));
+
+  const chosen = new Map<string, CatalogResource>();
+  for (const construct of constructs) {
+    ranked
+      .filter((resource) => resource.constructs.includes(construct))
+      .slice(0, RESOURCES_PER_CONSTRUCT)
+      .forEach((resource) => chosen.set(resource.id, resource));
+  }
+  return [...chosen.values()];
+}
+
+// The step's resources as stored in the roadmap, looked up in the resources
+// the model was offered. Ids it was not offered are returned as rejected.
+export function resolveResources(
+  refs: GeneratedRoadmapStep["resources"],
+  catalog: CatalogResource[]
+): { resources: RoadmapResource[]; rejected: string[] } {
+  const byId = new Map(catalog.map((resource) => [resource.id, resource]));
+  const resources: RoadmapResource[] = [];
+  const rejected: string[] = [];
+
+  for (const { resourceId, use } of refs) {
+    const resource = byId.get(resourceId.trim());
+    if (!resource) {
+      rejected.push(resourceId);
+    } else if (!resources.some((r) => r.resourceId === resource.id)) {
+      resources.push({ resourceId: resource.id, name: resource.name, kind: resource.kind, cost: resource.cost, url: resource.url, use });
+    }
+  }
+  return { resources, rejected };
+}
@@ -0,0 +1,73 @@
+// What changed between two versions of a roadmap, as stored with each
+// revision in roadmap_revisions. Used by generate-roadmap when it rewrites
+// steps from a teacher's feedback and by edit-roadmap for direct edits.
+
+import type { Roadmap, RoadmapResource } from "./roadmap.ts";
+
+export type RoadmapChange =
+  | { kind: "header"; field: "overallSeverity" | "summary"; before: string; after: string }
+  | { kind: "step-added"; stepNumber: number; title: string }
+  | { kind: "step-removed"; stepNumber: number; title: string }
+  | { kind: "step-changed"; stepNumber: number; field: "title" | "executionPlan"; before: string; after: string }
+  // Resources by catalog id (by name for resources from before the catalog);
+  // a resource whose note on how to use it changed is in both lists
+  | { kind: "resources-changed"; stepNumber: number; added: string[]; removed: string[] };
+
+export function diffRoadmaps(before: Roadmap, after: Roadmap): RoadmapChange[] {
+  const changes: RoadmapChange[] = [];
+
+  for (const field of ["overallSeverity", "summary"] as const) {
+    if (before[field] !== after[field]) changes.push({ kind: "header", field, before: before[field], after: after[field] });
+  }
+
+  const numbers = [...new Set([...before.steps, ...after.steps].map((s) => s.stepNumber))].sort((a, b) => a - b);
+  for (const stepNumber of numbers) {
+    const old = before.steps.find((s) => s.stepNumber === stepNumber);
+    const next = after.steps.find((s) => s.stepNumber === stepNumber);
+    if (!old) {
+      changes.push({ kind: "step-added", stepNumber, title: next!.title });
+      continue;
+    }
+    if (!next) {
+      changes.push({ kind: "step-removed", stepNumber, title: old.title });
+      continue;
+    }
+
+    for (const field of ["title", "executionPlan"] as const) {
+      if (old[field] !== next[field]) changes.push({ kind: "step-changed", stepNumber, field, before: old[field], after: next[field] });
+    }
+
+    const label = (r: RoadmapResource) => r.resourceId ?? r.name;
+    const key = (r: RoadmapResource) => `${label(r)}\u0000${r.use}`;
+    const oldKeys = new Set(old.resources.map(key));
+    const nextKeys = new Set(next.resources.map(key));
+    const added = next.resources.filter((r) => !oldKeys.has(key(r))).map(label);
+    const removed = old.resources.filter((r) => !nextKeys.has(key(r))).map(label);
+    if (added.length > 0 || removed.length > 0) changes.push({ kind: "resources-changed", stepNumber, added, removed });
+  }
+
+  return changes;
+}
+
+// One line per change, for the revision history
+export function describeChange(change: RoadmapChange): string {
+  switch (change.kind) {
+    case "header":
+      return change.field === "summary" ? "Summary rewritten" : `Severity changed from ${change.before} to ${change.after}`;
+    case "step-added":
+      return `Step ${change.stepNumber} added: ${change.title}`;
+    case "step-removed":
+      return `Step ${change.stepNumber} removed: ${change.title}`;
+    case "step-changed":
+      return change.field === "title"
+        ? `Step ${change.stepNumber} retitled from "${change.before}" to "${change.after}"`
+        : `Step ${change.stepNumber} plan rewritten`;
+    case "resources-changed": {
+      const parts = [
+        change.added.length > 0 ? `added ${change.added.join(", ")}` : "",
+        change.removed.length > 0 ? `removed ${change.removed.join(", ")}` : "",
+      ].filter(Boolean);
+      return `Step ${change.stepNumber} resources: ${parts.join("; ")}`;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { describeChange, diffRoadmaps } from "./roadmap-diff.ts";
+import { ROADMAP_SCHEMA_VERSION, type Roadmap, type RoadmapResource, type RoadmapStep } from "./roadmap.ts";
+
+function resource(resourceId: string | null, name: string, use = ""): RoadmapResource {
+  return { resourceId, name, kind: null, cost: null, url: null, use };
+}
+
+function step(stepNumber: number, title: string, resources: RoadmapResource[] = []): RoadmapStep {
+  return { stepNumber, title, executionPlan: `Plan for ${title}`, resources };
+}
+
+const ROADMAP: Roadmap = {
+  schemaVersion: ROADMAP_SCHEMA_VERSION,
+  overallSeverity: "mild",
+  summary: "Works on place value.",
+  steps: [
+    step(1, "Build tens", [resource("base-ten-blocks", "Base ten blocks", "Make each number")]),
+    step(2, "Count on", [resource(null, "Hundred square")]),
+  ],
+};
+
+Deno.test("an unchanged roadmap has no changes", () => {
+  assertEquals(diffRoadmaps(ROADMAP, structuredClone(ROADMAP)), []);
+});
+
+Deno.test("header and step text changes are listed", () => {
+  const after: Roadmap = {
+    ...ROADMAP,
+    overallSeverity: "moderate",
+    steps: [{ ...ROADMAP.steps[0], title: "Build tens and ones" }, { ...ROADMAP.steps[1], executionPlan: "Count on in tens" }],
+  };
+  assertEquals(diffRoadmaps(ROADMAP, after), [
+    { kind: "header", field: "overallSeverity", before: "mild", after: "moderate" },
+    { kind: "step-changed", stepNumber: 1, field: "title", before: "Build tens", after: "Build tens and ones" },
+    { kind: "step-changed", stepNumber: 2, field: "executionPlan", before: "Plan for Count on", after: "Count on in tens" },
+  ]);
+});
+
+Deno.test("added and removed steps are listed", () => {
+  const after: Roadmap = { ...ROADMAP, steps: [ROADMAP.steps[0], step(3, "Compare numbers")] };
+  assertEquals(diffRoadmaps(ROADMAP, after), [
+    { kind: "step-removed", stepNumber: 2, title: "Count on" },
+    { kind: "step-added", stepNumber: 3, title: "Compare numbers" },
+  ]);
+});
+
+Deno.test("resources are compared by catalog id, or by name without one", () => {
+  const after: Roadmap = {
+    ...ROADMAP,
+    steps: [
+      { ...ROADMAP.steps[0], resources: [resource("base-ten-blocks", "Base ten blocks", "Make each number"), resource("place-value-chart", "Place value chart")] },
+      { ...ROADMAP.steps[1], resources: [] },
+    ],
+  };
+  assertEquals(diffRoadmaps(ROADMAP, after), [
+    { kind: "resources-changed", stepNumber: 1, added: ["place-value-chart"], removed: [] },
+    { kind: "resources-changed", stepNumber: 2, added: [], removed: ["Hundred square"] },
+  ]);
+});
+
+Deno.test("a resource whose use changed is both added and removed", () => {
+  const after: Roadmap = {
+    ...ROADMAP,
+    steps: [{ ...ROADMAP.steps[0], resources: [resource("base-ten-blocks", "Base ten blocks", "Show tens")] }, ROADMAP.steps[1]],
+  };
+  assertEquals(diffRoadmaps(ROADMAP, after), [
+    { kind: "resources-changed", stepNumber: 1, added: ["base-ten-blocks"], removed: ["base-ten-blocks"] },
+  ]);
+});
+
+Deno.test("changes are described in one line each", () => {
+  assertEquals(describeChange({ kind: "header", field: "summary", before: "a", after: "b" }), "Summary rewritten");
+  assertEquals(
+    describeChange({ kind: "step-changed", stepNumber: 2, field: "title", before: "Count on", after: "Count in tens" }),
+    'Step 2 retitled from "Count on" to "Count in tens"'
+  );
+  assertEquals(
+    describeChange({ kind: "resources-changed", stepNumber: 1, added: ["place-value-chart"], removed: ["Hundred square"] }),
+    "Step 1 resources: added place-value-chart; removed Hundred square"
+  );
+});
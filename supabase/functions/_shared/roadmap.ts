@@ -0,0 +1,148 @@
+// The roadmap contract shared by generate-roadmap, the Diagnostic roadmap view
+// and the Dashboard: what remediation_roadmaps.roadmap_data and each
+// roadmap_revisions snapshot hold. Readers validate it with validateRoadmap.
+// When the shape changes, bump ROADMAP_SCHEMA_VERSION, teach upgradeRoadmap
+// the old shape and add a migration that upgrades the stored rows.
+
+// Roadmaps stored before the shape was versioned have no schemaVersion and
+// count as version 1
+export const ROADMAP_SCHEMA_VERSION = 2;
+
+export const ROADMAP_SEVERITIES = ["none", "mild", "moderate", "severe"] as const;
+
+export type RoadmapSeverity = (typeof ROADMAP_SEVERITIES)[number];
+
+// A resource a step recommends, from the resources catalog. Resources named in
+// roadmaps written before the catalog existed have no id, kind or cost unless
+// the name matched a catalog entry.
+export interface RoadmapResource {
+  resourceId: string | null;
+  name: string;
+  kind: string | null;
+  cost: string | null;
+  url: string | null;
+  // How the step uses it; may be empty
+  use: string;
+}
+
+export interface RoadmapStep {
+  stepNumber: number;
+  title: string;
+  executionPlan: string;
+  resources: RoadmapResource[];
+}
+
+export interface Roadmap {
+  schemaVersion: typeof ROADMAP_SCHEMA_VERSION;
+  overallSeverity: RoadmapSeverity;
+  summary: string;
+  steps: RoadmapStep[];
+}
+
+// The reason is typed on both branches so that callers compiled without
+// strictNullChecks, which do not narrow on valid, can still read it
+export type RoadmapValidation =
+  | { valid: true; roadmap: Roadmap; reason?: undefined }
+  | { valid: false; roadmap?: undefined; reason: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function text(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function parseResource(value: unknown): RoadmapResource | null {
+  if (typeof value === "string") {
+    return value.trim() ? { resourceId: null, name: value.trim(), kind: null, cost: null, url: null, use: "" } : null;
+  }
+  if (!isRecord(value) || !text(value.name)?.trim()) return null;
+  return {
+    resourceId: text(value.resourceId),
+    name: text(value.name)!.trim(),
+    kind: text(value.kind),
+    cost: text(value.cost),
+    url: text(value.url),
+    use: text(value.use) ?? "",
+  };
+}
+
+// A step of the current shape, or null if it is not one
+export function parseRoadmapStep(value: unknown): RoadmapStep | null {
+  if (!isRecord(value)) return null;
+  const { stepNumber, title, executionPlan, resources } = value;
+  if (typeof stepNumber !== "number" || !Number.isInteger(stepNumber) || stepNumber < 1) return null;
+  if (!text(title)?.trim() || !text(executionPlan)?.trim()) return null;
+  if (resources !== undefined && !Array.isArray(resources)) return null;
+
+  const parsed = (Array.isArray(resources) ? resources : []).map(parseResource);
+  if (parsed.some((r) => r === null)) return null;
+  return { stepNumber, title: title as string, executionPlan: executionPlan as string, resources: parsed as RoadmapResource[] };
+}
+
+// Brings a roadmap stored before the shape was versioned up to the current
+// version. Two shapes were written: steps of {stepNumber, title,
+// executionPlan, resources} with resources as plain names, and steps of
+// {step, title, description, activities, duration}.
+export function upgradeRoadmap(value: Record<string, unknown>): Record<string, unknown> {
+  if (value.schemaVersion !== undefined) return value;
+
+  const steps = Array.isArray(value.steps) ? value.steps : [];
+  return {
+    schemaVersion: ROADMAP_SCHEMA_VERSION,
+    overallSeverity: value.overallSeverity ?? "none",
+    summary: value.summary ?? "",
+    steps: steps.map((step, i) => {
+      if (!isRecord(step)) return step;
+      const activities = Array.isArray(step.activities) ? step.activities.filter((a) => typeof a === "string") : [];
+      const plan = [
+        text(step.description),
+        activities.length > 0 ? `Activities: ${activities.join("; ")}` : null,
+        text(step.duration) ? `Duration: ${step.duration}` : null,
+      ].filter(Boolean).join("\n");
+
+      const stepNumber = typeof step.stepNumber === "number" ? step.stepNumber : typeof step.step === "number" ? step.step : i + 1;
+      return {
+        stepNumber,
+        title: text(step.title)?.trim() ? step.title : `Step ${stepNumber}`,
+        executionPlan: text(step.executionPlan)?.trim() ? step.executionPlan : plan || "No plan recorded",
+        resources: step.resources ?? [],
+      };
+    }),
+  };
+}
+
+// Checks a stored or received roadmap against the contract, upgrading one
+// stored before the shape was versioned
+export function validateRoadmap(value: unknown): RoadmapValidation {
+  if (!isRecord(value)) return { valid: false, reason: "roadmap is not an object" };
+  const roadmap = upgradeRoadmap(value);
+
+  if (roadmap.schemaVersion !== ROADMAP_SCHEMA_VERSION) {
+    return { valid: false, reason: `unknown roadmap schema version ${String(roadmap.schemaVersion)}` };
+  }
+  if (!ROADMAP_SEVERITIES.includes(roadmap.overallSeverity as RoadmapSeverity)) {
+    return { valid: false, reason: `unknown severity "${String(roadmap.overallSeverity)}"` };
+  }
+  if (typeof roadmap.summary !== "string") return { valid: false, reason: "summary is not text" };
+  if (!Array.isArray(roadmap.steps) || roadmap.steps.length === 0) return { valid: false, reason: "roadmap has no steps" };
+
+  const steps: RoadmapStep[] = [];
+  for (const [i, value] of roadmap.steps.entries()) {
+    const step = parseRoadmapStep(value);
+    if (!step) return { valid: false, reason: `step ${i + 1} is malformed` };
+    if (steps.some((s) => s.stepNumber === step.stepNumber)) return { valid: false, reason: `step ${step.stepNumber} appears twice` };
+    steps.push(step);
+  }
+
+  return {
+    valid: true,
+    roadmap: {
+      schemaVersion: ROADMAP_SCHEMA_VERSION,
+      overallSeverity: roadmap.overallSeverity as RoadmapSeverity,
+      summary: roadmap.summary,
+      steps: steps.sort((a, b) => a.stepNumber - b.stepNumber),
+    },
+  };
+}
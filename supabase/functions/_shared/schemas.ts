@@ -0,0 +1,153 @@
+// Shapes the edge functions expect back from the model and in the request
+// bodies the browser sends. These only check structure; answer keys are
+// checked by validateItem.
+
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import { ITEM_TYPES } from "./items.ts";
+import { ROADMAP_SEVERITIES } from "./roadmap.ts";
+
+// A generated item. Fields specific to an item type (options, min, max, ...)
+// are passed through for validateItem and parseQuestion to check.
+export const GeneratedQuestionSchema = z.object({
+  itemType: z.enum(ITEM_TYPES).default("free-text"),
+  questionText: z.string().min(1),
+  // Ordering items may give only correctOrder
+  correctAnswer: z.union([z.string(), z.number()]).transform(String).optional(),
+  construct: z.string().min(1),
+  difficultyLevel: z.coerce.number().min(1).max(5),
+}).passthrough();
+
+export type GeneratedQuestion = z.infer<typeof GeneratedQuestionSchema>;
+
+// Questions come wrapped in an object, as JSON mode requires; a bare array or
+// a single question is accepted too
+export const QuestionSetSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { questions: value } : value && typeof value === "object" && "questionText" in value ? { questions: [value] } : value),
+  z.object({ questions: z.array(GeneratedQuestionSchema).min(1) })
+);
+
+// A roadmap step as the model writes it. Resources are ids from the catalog
+// it was given, each with how the step uses it; a bare id is accepted too.
+export const GeneratedRoadmapStepSchema = z.object({
+  stepNumber: z.coerce.number().int().positive(),
+  title: z.string().min(1),
+  executionPlan: z.string().min(1),
+  resources: z.array(z.preprocess(
+    (value) => (typeof value === "string" ? { resourceId: value } : value),
+    z.object({ resourceId: z.string().min(1), use: z.string().default("") })
+  )).default([]),
+});
+
+export type GeneratedRoadmapStep = z.infer<typeof GeneratedRoadmapStepSchema>;
+
+// The first part of a streamed roadmap, before its steps. The roadmap as
+// stored is checked by validateRoadmap (roadmap.ts).
+export const RoadmapHeaderSchema = z.object({
+  overallSeverity: z.enum(ROADMAP_SEVERITIES),
+  summary: z.string(),
+});
+
+export type RoadmapHeader = z.infer<typeof RoadmapHeaderSchema>;
+
+// A roadmap whose stream dropped, as the browser sends it back to be
+// continued. Its steps' resources are resolved against the catalog again.
+export const PartialRoadmapSchema = RoadmapHeaderSchema.extend({
+  steps: z.array(GeneratedRoadmapStepSchema),
+});
+
+// A step of a saved roadmap edited by hand. Resources are catalog ids; those
+// saved before the catalog existed have none and go by their name.
+const EditedRoadmapStepSchema = z.object({
+  stepNumber: z.number().int().min(1),
+  title: z.string().trim().min(1, "give the step a title"),
+  executionPlan: z.string().trim().min(1, "say how to carry out the step"),
+  resources: z.array(z.object({
+    resourceId: z.string().min(1).nullable(),
+    name: z.string(),
+    use: z.string().default(""),
+  })),
+});
+
+// An edit-roadmap body: one step of a saved roadmap, as the teacher edited it
+export const RoadmapEditRequestSchema = z.object({
+  testId: z.string().uuid(),
+  roadmapId: z.string().uuid(),
+  // The version the teacher was looking at
+  baseVersion: z.number().int().min(1),
+  step: EditedRoadmapStepSchema,
+});
+
+// Items one generate-question request may ask for
+export const MAX_QUESTIONS_PER_REQUEST = 5;
+
+// Mirror the confirmatory budget in src/lib/confirmatory.ts
+export const MAX_CONFIRMATORY_ITEMS_PER_BLOCKER = 5;
+export const MAX_CONFIRMATORY_ITEMS = 10;
+
+// A generate-question body: the number line task, or items for one construct
+// numbered from questionNumber
+export const QuestionRequestSchema = z.object({
+  testId: z.string().uuid(),
+  task: z.literal("number-line").optional(),
+  questionNumber: z.number().int().min(1).optional(),
+  count: z.number().int().min(1).max(MAX_QUESTIONS_PER_REQUEST).default(1),
+  construct: z.string().min(1).optional(),
+  difficultyLevel: z.number().int().min(1).max(5).default(3),
+});
+
+// A generate-confirmatory-test body. A bare blockerName stands for a single
+// blocker with the most items one blocker may get.
+export const ConfirmatoryRequestSchema = z.object({
+  testId: z.string().uuid(),
+  firstQuestionNumber: z.number().int().min(1),
+  blockerName: z.string().min(1).optional(),
+  blockers: z.array(z.object({
+    name: z.string().min(1),
+    count: z.number().int().min(1).max(MAX_CONFIRMATORY_ITEMS_PER_BLOCKER),
+  })).min(1).optional(),
+})
+  .refine((body) => body.blockers !== undefined || body.blockerName !== undefined, { message: "blockers are required" })
+  .refine(
+    (body) => (body.blockers ?? []).reduce((sum, b) => sum + b.count, 0) <= MAX_CONFIRMATORY_ITEMS,
+    { message: `at most ${MAX_CONFIRMATORY_ITEMS} confirmatory items may be requested`, path: ["blockers"] }
+  );
+
+// The first problem with a request body, for its 400 response
+export function requestError(error: z.ZodError): string {
+  const [issue] = error.issues;
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+// A blocker as the browser holds it; fields the roadmap prompt does not use
+// are dropped
+const RoadmapBlockerSchema = z.object({
+  blocker_name: z.string().min(1),
+  blocker_type: z.string().min(1),
+  error_count: z.number().int().min(0),
+  confidence: z.number().min(0).max(1).nullable(),
+  is_confirmed: z.boolean().nullable(),
+  misconceptions: z.record(z.number()).nullish().transform((value) => value ?? {}),
+});
+
+// Chosen steps of a saved roadmap to rewrite from the teacher's feedback
+const RoadmapRevisionSchema = z.object({
+  roadmapId: z.string().uuid(),
+  // The version the teacher was looking at
+  baseVersion: z.number().int().min(1),
+  stepNumbers: z.array(z.number().int().min(1)).min(1, "choose the steps to rewrite"),
+  feedback: z.string().trim().min(1, "say what should change"),
+});
+
+// A generate-roadmap body: a new roadmap from the test's blockers and
+// responses, possibly continuing a partial one, or a revision of a saved one
+export const RoadmapRequestSchema = z.object({
+  testId: z.string().uuid(),
+  blockers: z.array(RoadmapBlockerSchema).optional(),
+  responses: z.array(z.unknown()).optional(),
+  // Checked with PartialRoadmapSchema; a roadmap that fails it is started over
+  partial: z.unknown().optional(),
+  revise: RoadmapRevisionSchema.optional(),
+}).refine(
+  (body) => body.revise !== undefined || (body.blockers !== undefined && body.responses !== undefined),
+  { message: "blockers and responses are required" }
+);
@@ -0,0 +1,322 @@
+// Math-aware answer equivalence. A child who types "7.0", "seven", "0.5" for
+// "1/2" or "12" for "12 cm" has understood the item, so these are scored
+// correct. Every match records the rule that was applied so teachers can see
+// why an answer was accepted.
+
+export type MatchRule =
+  | "exact"
+  | "normalized-text"
+  | "synonym"
+  | "numeric"
+  | "number-word"
+  | "fraction-decimal"
+  | "percentage"
+  | "place-value"
+  | "unit"
+  | "currency"
+  | "multi-part"
+  | "option"
+  | "within-tolerance"
+  | "sequence"
+  | "no-match";
+
+export const MATCH_RULE_DESCRIPTIONS: Record<MatchRule, string> = {
+  "exact": "Matched the answer key exactly",
+  "normalized-text": "Matched after ignoring case, spacing, articles and punctuation",
+  "synonym": "Used an equivalent word or symbol (e.g. \"more\" for \">\")",
+  "numeric": "Same number written differently (e.g. \"7.0\" for \"7\")",
+  "number-word": "Number written in words (e.g. \"seven\" for \"7\")",
+  "fraction-decimal": "Equivalent fraction or decimal (e.g. \"1/2\" for \"0.5\")",
+  "percentage": "Equivalent percentage (e.g. \"50%\" for \"0.5\")",
+  "place-value": "Place value notation (e.g. \"3 tens\" for \"30\")",
+  "unit": "Same quantity with the unit added, omitted or converted",
+  "currency": "Same amount of money with the currency added, omitted or converted",
+  "multi-part": "Every part of a multi-part answer matched",
+  "option": "Chose the correct option",
+  "within-tolerance": "Placed close enough to the target on the number line",
+  "sequence": "Put every item in the correct order",
+  "no-match": "Did not match the answer key",
+};
+
+export interface AnswerScore {
+  isCorrect: boolean;
+  rule: MatchRule;
+}
+
+type NumberForm = "numeral" | "word" | "fraction" | "place-value";
+
+interface Unit {
+  dimension: string;
+  factor: number;
+}
+
+interface Quantity {
+  value: number;
+  form: NumberForm;
+  unit: Unit | null;
+}
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const SCALES: Record<string, number> = { thousand: 1000, million: 1000000 };
+
+const FRACTION_WORDS: Record<string, number> = {
+  half: 2, halves: 2, third: 3, thirds: 3, quarter: 4, quarters: 4, fourth: 4, fourths: 4,
+  fifth: 5, fifths: 5, sixth: 6, sixths: 6, seventh: 7, sevenths: 7, eighth: 8, eighths: 8,
+  ninth: 9, ninths: 9, tenth: 10, tenths: 10,
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2, "⅓": 1 / 3, "⅔": 2 / 3, "¼": 1 / 4, "¾": 3 / 4, "⅕": 1 / 5, "⅛": 1 / 8,
+};
+
+const PLACE_VALUES: Record<string, number> = {
+  one: 1, ones: 1, ten: 10, tens: 10, hundred: 100, hundreds: 100, thousand: 1000, thousands: 1000,
+};
+
+const UNIT_ALIASES: [string[], string, number][] = [
+  [["mm", "millimeter", "millimeters", "millimetre", "millimetres"], "length", 0.001],
+  [["cm", "centimeter", "centimeters", "centimetre", "centimetres"], "length", 0.01],
+  [["m", "meter", "meters", "metre", "metres"], "length", 1],
+  [["km", "kilometer", "kilometers", "kilometre", "kilometres"], "length", 1000],
+  [["g", "gram", "grams"], "mass", 1],
+  [["kg", "kilogram", "kilograms"], "mass", 1000],
+  [["ml", "milliliter", "milliliters", "millilitre", "millilitres"], "volume", 0.001],
+  [["l", "liter", "liters", "litre", "litres"], "volume", 1],
+  [["s", "sec", "secs", "second", "seconds"], "time", 1],
+  [["min", "mins", "minute", "minutes"], "time", 60],
+  [["h", "hr", "hrs", "hour", "hours"], "time", 3600],
+  [["day", "days"], "time", 86400],
+  [["°", "deg", "degree", "degrees"], "angle", 1],
+  [["$", "dollar", "dollars"], "money-usd", 1],
+  [["¢", "c", "cent", "cents"], "money-usd", 0.01],
+  [["£", "pound", "pounds"], "money-gbp", 1],
+  [["p", "pence", "penny", "pennies"], "money-gbp", 0.01],
+  [["€", "euro", "euros"], "money-eur", 1],
+  [["%", "percent", "per cent"], "percent", 0.01],
+];
+
+const UNITS: Record<string, Unit> = UNIT_ALIASES.reduce((acc, [aliases, dimension, factor]) => {
+  aliases.forEach((alias) => (acc[alias] = { dimension, factor }));
+  return acc;
+}, {} as Record<string, Unit>);
+
+const SYNONYMS: Record<string, string> = {
+  ">": "greater", "greater than": "greater", "more": "greater", "more than": "greater",
+  "bigger": "greater", "larger": "greater", "the bigger one": "greater",
+  "<": "less", "less than": "less", "fewer": "less", "smaller": "less", "fewer than": "less",
+  "=": "equal", "equal to": "equal", "equals": "equal", "same": "equal", "the same": "equal",
+  "yes": "true", "y": "true", "correct": "true", "no": "false", "n": "false", "incorrect": "false",
+};
+
+function normalize(answer: string): string {
+  return answer
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!?]+$/, "");
+}
+
+function canonicalText(answer: string): string {
+  return answer
+    .replace(/^(a|an|the) /, "")
+    .replace(/["'`]/g, "")
+    .trim();
+}
+
+function approximatelyEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+function parseNumberWords(text: string): number | null {
+  const tokens = text.replace(/-/g, " ").split(" ").filter((t) => t && t !== "and");
+  if (tokens.length === 0) return null;
+
+  let total = 0;
+  let current = 0;
+  for (const [i, token] of tokens.entries()) {
+    if (token === "a" && i === 0 && tokens.length > 1) current = 1;
+    else if (token in SMALL_NUMBERS) current += SMALL_NUMBERS[token];
+    else if (token === "hundred") current = (current || 1) * 100;
+    else if (token in SCALES) {
+      total += (current || 1) * SCALES[token];
+      current = 0;
+    } else return null;
+  }
+  return total + current;
+}
+
+// "one half", "a quarter", "three quarters", "two and a half"
+function parseFractionWords(text: string): number | null {
+  const mixed = text.match(/^(.+?) and (.+)$/);
+  if (mixed) {
+    const whole = parseNumberWords(mixed[1]);
+    const fraction = parseFractionWords(mixed[2]);
+    return whole !== null && fraction !== null ? whole + fraction : null;
+  }
+
+  const tokens = text.split(" ");
+  const denominator = FRACTION_WORDS[tokens[tokens.length - 1]];
+  if (!denominator) return null;
+
+  const numeratorText = tokens.slice(0, -1).join(" ");
+  const numerator = numeratorText === "" || numeratorText === "a" ? 1 : parseNumberWords(numeratorText);
+  return numerator !== null ? numerator / denominator : null;
+}
+
+// "3 tens", "4 hundreds 2 tens and 5 ones"
+function parsePlaceValue(text: string): number | null {
+  const tokens = text.split(" ").filter((t) => t !== "and");
+  if (tokens.length < 2 || tokens.length % 2 !== 0) return null;
+
+  let total = 0;
+  for (let i = 0; i < tokens.length; i += 2) {
+    const count = /^\d+$/.test(tokens[i]) ? Number(tokens[i]) : parseNumberWords(tokens[i]);
+    const place = PLACE_VALUES[tokens[i + 1]];
+    if (count === null || !place) return null;
+    total += count * place;
+  }
+  return total;
+}
+
+function parseNumber(text: string): { value: number; form: NumberForm } | null {
+  if (/^-?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?$/.test(text) && /\d/.test(text)) {
+    return { value: Number(text.replace(/,/g, "")), form: "numeral" };
+  }
+
+  const fraction = text.match(/^(?:(\d+) )?(-?\d+) ?\/ ?(\d+)$/);
+  if (fraction && Number(fraction[3]) !== 0) {
+    const whole = fraction[1] ? Number(fraction[1]) : 0;
+    return { value: whole + Number(fraction[2]) / Number(fraction[3]), form: "fraction" };
+  }
+
+  const unicodeFraction = text.match(/^(\d*) ?([½⅓⅔¼¾⅕⅛])$/);
+  if (unicodeFraction) {
+    const whole = unicodeFraction[1] ? Number(unicodeFraction[1]) : 0;
+    return { value: whole + UNICODE_FRACTIONS[unicodeFraction[2]], form: "fraction" };
+  }
+
+  const placeValue = parsePlaceValue(text);
+  if (placeValue !== null) return { value: placeValue, form: "place-value" };
+
+  const words = parseNumberWords(text);
+  if (words !== null) return { value: words, form: "word" };
+
+  const fractionWords = parseFractionWords(text);
+  if (fractionWords !== null) return { value: fractionWords, form: "fraction" };
+
+  return null;
+}
+
+function lookupUnit(label: string): Unit {
+  // Unknown labels ("apples", "marbles") only match themselves
+  return UNITS[label] ?? { dimension: `label:${label.replace(/s$/, "")}`, factor: 1 };
+}
+
+function parseQuantity(answer: string): Quantity | null {
+  let text = answer;
+  let prefixUnit: string | null = null;
+
+  const currency = text.match(/^([$£€]) ?(.+)$/);
+  if (currency) {
+    prefixUnit = currency[1];
+    text = currency[2];
+  }
+
+  // Separate a unit written against the number ("12cm", "50%")
+  const tokens = text.replace(/(\d)([a-z°%¢])/g, "$1 $2").split(" ");
+
+  // The longest leading run of tokens that reads as a number wins, so
+  // "one hundred apples" is 100 apples rather than 1 "hundred apples"
+  for (let k = tokens.length; k >= 1; k--) {
+    const parsed = parseNumber(tokens.slice(0, k).join(" "));
+    if (!parsed) continue;
+
+    const label = tokens.slice(k).join(" ");
+    if (prefixUnit && label) return null;
+
+    const unitLabel = prefixUnit ?? label;
+    return { ...parsed, unit: unitLabel ? lookupUnit(unitLabel) : null };
+  }
+  return null;
+}
+
+function quantitiesMatch(a: Quantity, b: Quantity): boolean {
+  if (a.unit && b.unit) {
+    return a.unit.dimension === b.unit.dimension && approximatelyEqual(a.value * a.unit.factor, b.value * b.unit.factor);
+  }
+
+  if (approximatelyEqual(a.value, b.value)) return true;
+
+  // "0.5" for "50%" (and the reverse)
+  const withUnit = a.unit ?? b.unit;
+  const without = a.unit ? b : a;
+  return withUnit?.dimension === "percent" && approximatelyEqual((a.unit ? a : b).value * withUnit.factor, without.value);
+}
+
+function numericRule(a: Quantity, b: Quantity): MatchRule {
+  const dimensions = [a.unit?.dimension, b.unit?.dimension];
+  const forms = [a.form, b.form];
+
+  if (dimensions.some((d) => d?.startsWith("money"))) return "currency";
+  if (dimensions.includes("percent")) return "percentage";
+  if (dimensions.some((d) => d)) return "unit";
+  if (forms.includes("place-value")) return "place-value";
+  if (forms.includes("fraction")) return "fraction-decimal";
+  if (forms.includes("word")) return "number-word";
+  return "numeric";
+}
+
+function compareSingle(user: string, correct: string): MatchRule | null {
+  if (user === correct) return "exact";
+
+  const userText = canonicalText(user);
+  const correctText = canonicalText(correct);
+  if (userText === correctText) return "normalized-text";
+  if ((SYNONYMS[userText] ?? userText) === (SYNONYMS[correctText] ?? correctText)) return "synonym";
+
+  const userQuantity = parseQuantity(userText);
+  const correctQuantity = parseQuantity(correctText);
+  if (userQuantity && correctQuantity && quantitiesMatch(userQuantity, correctQuantity)) {
+    return numericRule(userQuantity, correctQuantity);
+  }
+  return null;
+}
+
+// The numeric value of an answer in any supported notation ("seven", "1/2",
+// "3 tens", "$4"), or null when it is not a number
+export function parseNumericAnswer(answer: string): number | null {
+  const quantity = parseQuantity(canonicalText(normalize(answer)));
+  return quantity ? quantity.value : null;
+}
+
+function splitParts(answer: string): string[] {
+  return answer.split(/ ?[,;&] ?| and /).map((p) => p.trim()).filter(Boolean);
+}
+
+export function scoreAnswer(userAnswer: string, correctAnswer: string): AnswerScore {
+  const user = normalize(userAnswer);
+  const correct = normalize(correctAnswer);
+  if (!user) return { isCorrect: false, rule: "no-match" };
+
+  const rule = compareSingle(user, correct);
+  if (rule) return { isCorrect: true, rule };
+
+  // Multi-part answers ("3, 6, 9") must match part by part, in order
+  const userParts = splitParts(user);
+  const correctParts = splitParts(correct);
+  if (
+    correctParts.length > 1 &&
+    userParts.length === correctParts.length &&
+    correctParts.every((part, i) => compareSingle(userParts[i], part) !== null)
+  ) {
+    return { isCorrect: true, rule: "multi-part" };
+  }
+
+  return { isCorrect: false, rule: "no-match" };
+}
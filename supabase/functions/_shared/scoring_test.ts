@@ -0,0 +1,79 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseNumericAnswer, scoreAnswer, type MatchRule } from "./scoring.ts";
+
+function assertMatches(userAnswer: string, correctAnswer: string, rule: MatchRule) {
+  assertEquals(scoreAnswer(userAnswer, correctAnswer), { isCorrect: true, rule }, `"${userAnswer}" for "${correctAnswer}"`);
+}
+
+function assertRejects(userAnswer: string, correctAnswer: string) {
+  assertEquals(scoreAnswer(userAnswer, correctAnswer), { isCorrect: false, rule: "no-match" }, `"${userAnswer}" for "${correctAnswer}"`);
+}
+
+Deno.test("numbers written differently match", () => {
+  assertMatches("7", "7", "exact");
+  assertMatches("7.0", "7", "numeric");
+  assertMatches("1,200", "1200", "numeric");
+  assertMatches("seven", "7", "number-word");
+  assertMatches("one hundred and twenty", "120", "number-word");
+  assertMatches("3 tens", "30", "place-value");
+  assertMatches("4 hundreds 2 tens and 5 ones", "425", "place-value");
+});
+
+Deno.test("equivalent fractions and decimals match", () => {
+  assertMatches("1/2", "0.5", "fraction-decimal");
+  assertMatches("0.5", "1/2", "fraction-decimal");
+  assertMatches("2/4", "1/2", "fraction-decimal");
+  assertMatches("½", "1/2", "fraction-decimal");
+  assertMatches("three quarters", "3/4", "fraction-decimal");
+  assertMatches("1 1/2", "1.5", "fraction-decimal");
+  assertRejects("1/3", "0.5");
+});
+
+Deno.test("percentages match their decimals", () => {
+  assertMatches("50%", "0.5", "percentage");
+  assertMatches("0.5", "50%", "percentage");
+  assertMatches("50 percent", "50%", "percentage");
+  assertRejects("5%", "0.5");
+});
+
+Deno.test("units may be added, left out or converted", () => {
+  assertMatches("12", "12 cm", "unit");
+  assertMatches("12cm", "12 cm", "unit");
+  assertMatches("1 m", "100 cm", "unit");
+  assertMatches("2 hours", "120 minutes", "unit");
+  assertRejects("12 kg", "12 cm");
+  assertRejects("12 cm", "12 m");
+});
+
+Deno.test("money may be written with or without its currency", () => {
+  assertMatches("$4", "4", "currency");
+  assertMatches("£1.50", "150p", "currency");
+  assertRejects("$4", "£4");
+});
+
+Deno.test("words and symbols for comparisons match", () => {
+  assertMatches("The Greater", "greater", "normalized-text");
+  assertMatches(">", "greater", "synonym");
+  assertMatches("fewer", "less", "synonym");
+  assertRejects("less", "greater");
+});
+
+Deno.test("multi-part answers match part by part in order", () => {
+  assertMatches("3, 6, 9", "3, 6, 9", "exact");
+  assertMatches("three, six and nine", "3, 6, 9", "multi-part");
+  assertRejects("9, 6, 3", "3, 6, 9");
+  assertRejects("3, 6", "3, 6, 9");
+});
+
+Deno.test("blank answers never match", () => {
+  assertRejects("", "0");
+  assertRejects("   ", "0");
+});
+
+Deno.test("numeric answers are read in any supported notation", () => {
+  assertEquals(parseNumericAnswer("seven"), 7);
+  assertEquals(parseNumericAnswer("1/4"), 0.25);
+  assertEquals(parseNumericAnswer("3 tens"), 30);
+  assertEquals(parseNumericAnswer("$4"), 4);
+  assertEquals(parseNumericAnswer("blue"), null);
+});
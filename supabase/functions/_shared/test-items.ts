@@ -0,0 +1,95 @@
+// Server-side access to the items issued to a test. Answer keys live in
+// item_keys, which only the service role can read; the browser is sent the
+// public form of each item and gets a key back only once its answer is scored.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseQuestion, type Question } from "./items.ts";
+import { newSeed } from "./random.ts";
+
+export interface IssuedItem {
+  question: Question;
+  // The generation_provenance record the item came from
+  provenanceId: string | null;
+  // The item_pool entry it was drawn from, if any
+  poolItemId?: string | null;
+}
+
+// Stores the keys of items numbered from firstQuestionNumber, with where each
+// came from, and returns the items now on record. Items already issued for
+// those numbers are kept, so a retried request hands back the same items
+// instead of new ones.
+export async function storeItems(
+  admin: SupabaseClient,
+  testId: string,
+  firstQuestionNumber: number,
+  items: IssuedItem[]
+): Promise<Question[]> {
+  const { error } = await admin
+    .from("item_keys")
+    .upsert(
+      items.map(({ question, provenanceId, poolItemId }, i) => ({
+        test_id: testId,
+        question_number: firstQuestionNumber + i,
+        item: question,
+        provenance_id: provenanceId,
+        pool_item_id: poolItemId ?? null,
+      })),
+      { onConflict: "test_id,question_number", ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+
+  const { data, error: readError } = await admin
+    .from("item_keys")
+    .select("question_number, item, provenance_id")
+    .eq("test_id", testId)
+    .gte("question_number", firstQuestionNumber)
+    .lt("question_number", firstQuestionNumber + items.length)
+    .order("question_number", { ascending: true });
+
+  if (readError) throw readError;
+
+  // Records for items that lost out to ones already issued describe nothing.
+  // Pooled items keep theirs, which belong to the pool.
+  const kept = new Set((data || []).map((row) => row.provenance_id));
+  const unused = [...new Set(items.filter((item) => !item.poolItemId).map((item) => item.provenanceId))]
+    .filter((id): id is string => id !== null && !kept.has(id));
+  if (unused.length > 0) {
+    const { error: deleteError } = await admin.from("generation_provenance").delete().in("id", unused);
+    if (deleteError) throw deleteError;
+  }
+
+  return (data || []).map((row) => parseQuestion(row.item as Record<string, unknown>));
+}
+
+export async function loadItem(admin: SupabaseClient, testId: string, questionNumber: number): Promise<IssuedItem | null> {
+  const { data, error } = await admin
+    .from("item_keys")
+    .select("item, provenance_id")
+    .eq("test_id", testId)
+    .eq("question_number", questionNumber)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { question: parseQuestion(data.item as Record<string, unknown>), provenanceId: data.provenance_id } : null;
+}
+
+// The seed locally generated items of a test are drawn with. It is chosen
+// here on first use and kept in test_item_seeds, which the browser cannot
+// read; concurrent first requests agree on whichever seed was stored first.
+export async function loadTestSeed(admin: SupabaseClient, testId: string): Promise<number> {
+  const { error } = await admin
+    .from("test_item_seeds")
+    .upsert({ test_id: testId, seed: newSeed() }, { onConflict: "test_id", ignoreDuplicates: true });
+
+  if (error) throw error;
+
+  const { data, error: readError } = await admin
+    .from("test_item_seeds")
+    .select("seed")
+    .eq("test_id", testId)
+    .single();
+
+  if (readError) throw readError;
+  return Number(data.seed);
+}
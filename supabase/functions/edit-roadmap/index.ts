@@ -0,0 +1,150 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticateTeacher, authorizeTest, createAdminClient } from "../_shared/auth.ts";
+import { RoadmapEditRequestSchema, requestError } from "../_shared/schemas.ts";
+import { validateRoadmap, type RoadmapResource } from "../_shared/roadmap.ts";
+import { resolveResources, retrieveResources } from "../_shared/resources.ts";
+import { diffRoadmaps } from "../_shared/roadmap-diff.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Saves a step of a roadmap as the teacher edited it, as a new version. The
+// roadmap is checked against the roadmap contract, its resources are resolved
+// against the catalog and what changed is worked out here, not taken from
+// the browser.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request = RoadmapEditRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!request.success) {
+      return new Response(
+        JSON.stringify({ error: requestError(request.error) }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { testId, roadmapId, baseVersion, step } = request.data;
+
+    const admin = createAdminClient();
+    const teacherId = await authenticateTeacher(req, admin);
+    if (!teacherId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to continue" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const test = await authorizeTest(admin, teacherId, testId);
+    if (!test) {
+      return new Response(
+        JSON.stringify({ error: "Not allowed to edit the roadmap of this test" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: row, error } = await admin
+      .from("remediation_roadmaps")
+      .select("id, version, roadmap_data")
+      .eq("id", roadmapId)
+      .eq("test_id", test.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!row) {
+      return new Response(
+        JSON.stringify({ error: "Roadmap not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (row.version !== baseVersion) {
+      return new Response(
+        JSON.stringify({ error: "The roadmap was revised elsewhere while you were editing. Reload it and make your edit again." }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const current = validateRoadmap(row.roadmap_data);
+    const currentStep = current.roadmap?.steps.find((s) => s.stepNumber === step.stepNumber);
+    if (!current.valid || !currentStep) {
+      return new Response(
+        JSON.stringify({ error: `Step ${step.stepNumber} is not in this roadmap` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Resources are added only from the catalog entries for the student's
+    // age; those saved before the catalog existed can be kept but not added
+    const catalog = await retrieveResources(admin, [], test.age_at_test);
+    const resources: RoadmapResource[] = [];
+    for (const ref of step.resources) {
+      const resource = ref.resourceId === null
+        ? currentStep.resources.find((r) => r.resourceId === null && r.name === ref.name)
+        : resolveResources([{ resourceId: ref.resourceId, use: ref.use }], catalog).resources[0];
+      if (!resource) {
+        return new Response(
+          JSON.stringify({ error: `"${ref.name}" is not in the resource catalog for this student` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (!resources.some((r) => r.resourceId === resource.resourceId && r.name === resource.name)) {
+        resources.push({ ...resource, use: ref.use });
+      }
+    }
+
+    const revised = validateRoadmap({
+      ...current.roadmap,
+      steps: current.roadmap.steps.map((s) =>
+        s.stepNumber === step.stepNumber ? { stepNumber: s.stepNumber, title: step.title, executionPlan: step.executionPlan, resources } : s
+      ),
+    });
+    if (!revised.valid) {
+      return new Response(
+        JSON.stringify({ error: `The edited roadmap is malformed: ${revised.reason}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // An edit that changes nothing is not a new version
+    const diff = diffRoadmaps(current.roadmap, revised.roadmap);
+    if (diff.length === 0) {
+      return new Response(
+        JSON.stringify({ roadmap: current.roadmap, version: row.version }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: version, error: saveError } = await admin.rpc("save_roadmap_revision", {
+      p_roadmap_id: row.id,
+      p_base_version: row.version,
+      p_author_id: teacherId,
+      p_source: "edit",
+      p_roadmap_data: revised.roadmap,
+      p_diff: diff,
+      p_step_numbers: [step.stepNumber],
+    });
+
+    // Another revision was saved between reading the roadmap and saving it
+    if (saveError?.code === "40001") {
+      return new Response(
+        JSON.stringify({ error: "The roadmap was revised elsewhere while you were editing. Reload it and make your edit again." }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (saveError) throw saveError;
+
+    return new Response(
+      JSON.stringify({ roadmap: revised.roadmap, version }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in edit-roadmap:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,81 +1,244 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { canonicalConstruct, logRejection, validateItem } from "../_shared/item-validation.ts";
+import { completeJson } from "../_shared/ai-client.ts";
+import { ConfirmatoryRequestSchema, MAX_CONFIRMATORY_ITEMS_PER_BLOCKER, QuestionSetSchema, requestError } from "../_shared/schemas.ts";
+import { parseQuestion, toPublicQuestion } from "../_shared/items.ts";
+import { generateReadableQuestion, itemSeed } from "../_shared/generators.ts";
+import { consumeQuota, quotaExceededBody, refundQuota, type QuotaCharge } from "../_shared/quotas.ts";
+import { authenticateTeacher, authorizeTest, createAdminClient } from "../_shared/auth.ts";
+import { loadTestSeed, storeItems, type IssuedItem } from "../_shared/test-items.ts";
+import { CONFIRMATORY_PROMPT } from "../_shared/prompts.ts";
+import { recordProvenance } from "../_shared/provenance.ts";
+import {
+  addToPool,
+  ageBand,
+  bandAge,
+  drawPoolItems,
+  guardReading,
+  questionOutputs,
+  REFILL_BATCH,
+  type GeneratedItem,
+  type PoolItem,
+} from "../_shared/item-pool.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Rounds of generation before giving up on items whose answer key failed validation
+const MAX_ATTEMPTS = 3;
+
+// "local" serves every item from the seeded generators without calling the AI service
+const ITEM_SOURCE = Deno.env.get("ITEM_SOURCE") === "local" ? "local" : "ai";
+
+// Confirmatory items probe age-typical content, where a deficit shows
+const CONFIRMATORY_DIFFICULTY = 3;
+
+// Recorded with every item's provenance; bump when the generation logic changes
+const FUNCTION_VERSION = 6;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { age, blockerName } = await req.json();
-    
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const body = ConfirmatoryRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!body.success) {
+      return new Response(
+        JSON.stringify({ error: requestError(body.error) }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
+    const { testId, firstQuestionNumber, blockerName, blockers } = body.data;
 
-    const systemPrompt = `You are a dyscalculia diagnostic expert. Generate 5 confirmatory test questions specifically targeting "${blockerName}" for a ${age}-year-old student.
-
-These questions should deeply probe this specific deficit area to confirm the diagnosis.
-
-Return ONLY a JSON array with 5 objects, each having this exact structure:
-{
-  "questionText": "Clear question text",
-  "correctAnswer": "The correct answer",
-  "construct": "${blockerName}",
-  "difficultyLevel": 1-5
-}`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: `Generate 5 confirmatory questions for ${blockerName}.` }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    const admin = createAdminClient();
+    const teacherId = await authenticateTeacher(req, admin);
+    if (!teacherId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to continue" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const test = await authorizeTest(admin, teacherId, testId);
+    if (!test) {
+      return new Response(
+        JSON.stringify({ error: "Not allowed to issue items for this test" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const age = test.age_at_test;
+
+    // Each candidate blocker gets its own block of items
+    const plan = blockers ?? [{ name: blockerName!, count: MAX_CONFIRMATORY_ITEMS_PER_BLOCKER }];
+    const unknown = plan.find((b) => !canonicalConstruct(b.name));
+    if (unknown) {
+      return new Response(
+        JSON.stringify({ error: `Unknown construct "${unknown.name}"` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // One slot per planned item, in plan order; slots stay null until an item
+    // for that blocker is drawn from the pool
+    const slotConstructs = plan.flatMap((b) => Array<string>(b.count).fill(canonicalConstruct(b.name)!));
+    const slots: (PoolItem | null)[] = slotConstructs.map(() => null);
+    const testSeed = await loadTestSeed(admin, test.id);
+    const band = ageBand(age);
+
+    // Fills the open slots of each blocker from the pool
+    const drawSlots = async () => {
+      for (const construct of new Set(slotConstructs)) {
+        const open = slots.flatMap((slot, i) => (slot === null && slotConstructs[i] === construct ? [i] : []));
+        const drawn = await drawPoolItems(
+          admin,
+          test.id,
+          { ageBand: band, construct, difficultyLevel: CONFIRMATORY_DIFFICULTY },
+          open.length,
+          itemSeed(testSeed, firstQuestionNumber),
+          slots.flatMap((slot) => (slot ? [slot.id] : []))
         );
+        drawn.forEach((item, i) => (slots[open[i]] = item));
       }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required. Please add credits to your workspace." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    };
+
+    // The items to ask the model for: the blockers the pool is short of, with
+    // a batch to spare for later tests
+    const refillWanted = () => {
+      const needed = new Map<string, number>();
+      slots.forEach((slot, i) => {
+        if (slot === null) needed.set(slotConstructs[i], (needed.get(slotConstructs[i]) ?? 0) + 1);
+      });
+      return [...needed].map(([name, count]) => ({ name, count: Math.max(REFILL_BATCH, count) }));
+    };
+
+    // Asks the model for the wanted items and pools those that pass
+    // validation and the reading guard. The output of every round is kept for
+    // the provenance record.
+    const rawOutputs: string[] = [];
+    const refill = async (wanted: { name: string; count: number }[]) => {
+      const accepted: GeneratedItem[] = [];
+
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        const remaining = wanted
+          .map((b) => ({ name: b.name, count: b.count - accepted.filter((item) => item.question.construct === b.name).length }))
+          .filter((b) => b.count > 0);
+        if (remaining.length === 0) break;
+        const requested = remaining.flatMap((b) => Array<string>(b.count).fill(b.name));
+
+        const { data, raw } = await completeJson(
+          CONFIRMATORY_PROMPT.render({ age: bandAge(band), remaining }),
+          QuestionSetSchema,
+          {
+            temperature: CONFIRMATORY_PROMPT.temperature,
+            hint: { kind: "questions", constructs: requested, seed: firstQuestionNumber + attempt },
+          }
         );
+        rawOutputs.push(raw);
+
+        // Items come back in the order requested
+        const outputs = questionOutputs(raw);
+        const valid: GeneratedItem[] = [];
+        data.questions.slice(0, requested.length).forEach((item, i) => {
+          const validation = validateItem(item);
+          if (!validation.valid) {
+            logRejection("generate-confirmatory-test", validation.reason, item, raw);
+          } else if (validation.item.construct !== requested[i]) {
+            logRejection("generate-confirmatory-test", `item tests "${validation.item.construct}" instead of "${requested[i]}"`, item, raw);
+          } else {
+            valid.push({
+              question: { ...parseQuestion(validation.item), difficultyLevel: CONFIRMATORY_DIFFICULTY },
+              rawOutput: outputs[i] ?? JSON.stringify(item, null, 2),
+            });
+          }
+        });
+
+        const readable = await guardReading(valid, bandAge(band), "generate-confirmatory-test", raw);
+        accepted.push(...readable.items);
+        rawOutputs.push(...readable.rawOutputs);
       }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error("AI gateway error");
+
+      if (accepted.length === 0) return;
+      const provenanceId = await recordProvenance(admin, {
+        testId: null,
+        kind: "pool",
+        questionNumbers: [],
+        functionName: "generate-confirmatory-test",
+        functionVersion: FUNCTION_VERSION,
+        source: "model",
+        template: CONFIRMATORY_PROMPT,
+        input: { age: bandAge(band), remaining: wanted },
+        rawOutputs,
+      });
+      await addToPool(admin, band, accepted, provenanceId);
+    };
+
+    if (ITEM_SOURCE === "ai") {
+      await drawSlots();
     }
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    // Extract JSON from the response
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      throw new Error("Failed to extract JSON from AI response");
+    if (ITEM_SOURCE === "ai" && slots.includes(null)) {
+      // The quota is charged for every item asked of the model, once per block
+      // of questions however often the request is retried
+      const wanted = refillWanted();
+      const charge: QuotaCharge = {
+        amount: wanted.reduce((sum, b) => sum + b.count, 0),
+        chargeKey: `${test.id}:${firstQuestionNumber}`,
+      };
+      const quota = await consumeQuota(admin, teacherId, "confirmatory-test", charge);
+      if (!quota.allowed) {
+        return new Response(
+          JSON.stringify(quotaExceededBody("confirmatory-test", quota)),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(quota.retryAfter) } }
+        );
+      }
+
+      try {
+        await refill(wanted);
+      } catch (error) {
+        console.warn("Falling back to local confirmatory items:", error);
+        // Items the model failed to give are not charged
+        if (quota.charged) await refundQuota(admin, teacherId, "confirmatory-test", charge);
+      }
+      await drawSlots();
     }
-    
-    const questions = JSON.parse(jsonMatch[0]);
+
+    // Slots that are still empty are filled by the seeded generators
+    const localSlots = slots.flatMap((slot, i) => (slot ? [] : [i]));
+    const seeds = slots.map((_, i) => itemSeed(testSeed, firstQuestionNumber + i));
+    const localProvenanceId = localSlots.length > 0
+      ? await recordProvenance(admin, {
+        testId: test.id,
+        kind: "confirmatory-test",
+        questionNumbers: localSlots.map((i) => firstQuestionNumber + i),
+        functionName: "generate-confirmatory-test",
+        functionVersion: FUNCTION_VERSION,
+        source: "local",
+        input: {
+          constructs: localSlots.map((i) => slotConstructs[i]),
+          difficultyLevel: CONFIRMATORY_DIFFICULTY,
+          age,
+          seeds: localSlots.map((i) => seeds[i]),
+        },
+      })
+      : null;
+
+    const items: IssuedItem[] = slots.map((slot, i) =>
+      slot
+        ? { question: slot.question, provenanceId: slot.provenanceId, poolItemId: slot.id }
+        : {
+          question: generateReadableQuestion(slotConstructs[i], CONFIRMATORY_DIFFICULTY, age, seeds[i], "generate-confirmatory-test"),
+          provenanceId: localProvenanceId,
+        }
+    );
+
+    // The keys stay on the server; the browser gets the items without them
+    const issued = await storeItems(admin, test.id, firstQuestionNumber, items);
 
     return new Response(
-      JSON.stringify(questions),
+      JSON.stringify(issued.map(toPublicQuestion)),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
@@ -1,103 +1,152 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { canonicalConstruct } from "../_shared/item-validation.ts";
+import { toPublicQuestion } from "../_shared/items.ts";
+import { numberLineTask } from "../_shared/number-line.ts";
+import { generateReadableQuestion, itemSeed } from "../_shared/generators.ts";
+import { checkReading } from "../_shared/readability.ts";
+import { consumeQuota, quotaExceededBody, refundQuota } from "../_shared/quotas.ts";
+import { authenticateTeacher, authorizeTest, createAdminClient } from "../_shared/auth.ts";
+import { loadItem, loadTestSeed, storeItems, type IssuedItem } from "../_shared/test-items.ts";
+import { recordProvenance } from "../_shared/provenance.ts";
+import { QuestionRequestSchema, requestError } from "../_shared/schemas.ts";
+import { ageBand, drawPoolItems, refillPool, REFILL_BATCH, type PoolKey } from "../_shared/item-pool.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// "local" serves every item from the seeded generators without calling the AI service
+const ITEM_SOURCE = Deno.env.get("ITEM_SOURCE") === "local" ? "local" : "ai";
+
+// Recorded with every item's provenance; bump when the generation logic changes
+const FUNCTION_VERSION = 6;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { age, errorHistory, count = 1 } = await req.json();
-    
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const body = QuestionRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!body.success) {
+      return new Response(
+        JSON.stringify({ error: requestError(body.error) }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
+    const { testId, questionNumber, task, count, construct: requestedConstruct, difficultyLevel } = body.data;
 
-    // Build a prompt that adapts based on error history
-    const errorContext = errorHistory && errorHistory.length > 0
-      ? `The student has struggled with: ${errorHistory.map((e: any) => e.construct).join(', ')}. Adjust difficulty accordingly.`
-      : '';
-
-    const systemPrompt = `You are a dyscalculia diagnostic expert. Generate ${count} adaptive math question${count > 1 ? 's' : ''} for a ${age}-year-old student.
-    
-${errorContext}
-
-Each question should test one of these mathematical constructs:
-- Number Sense (magnitude comparison, number line understanding)
-- Place Value (understanding tens, hundreds, etc.)
-- Basic Arithmetic (addition, subtraction appropriate for age)
-- Pattern Recognition
-- Spatial Reasoning
-- Working Memory (multi-step problems)
-
-Return ONLY a JSON ${count > 1 ? 'array' : 'object'} with this exact structure:
-${count > 1 ? `[
-  {
-    "questionText": "Clear question text",
-    "correctAnswer": "The correct answer",
-    "construct": "Construct being tested",
-    "difficultyLevel": 1-5
-  }
-]` : `{
-  "questionText": "Clear question text",
-  "correctAnswer": "The correct answer",
-  "construct": "Construct being tested",
-  "difficultyLevel": 1-5
-}`}
-
-Make sure questions vary in difficulty and test different constructs.`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: `Generate a diagnostic math question for age ${age}.` }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
+    const admin = createAdminClient();
+    const teacherId = await authenticateTeacher(req, admin);
+    if (!teacherId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to continue" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const test = await authorizeTest(admin, teacherId, testId);
+    if (!test) {
+      return new Response(
+        JSON.stringify({ error: "Not allowed to issue items for this test" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const age = test.age_at_test;
+
+    const provenance = { testId: test.id, kind: "question" as const, functionName: "generate-question", functionVersion: FUNCTION_VERSION };
+
+    // The built-in number line task opens every test
+    if (task === "number-line") {
+      const items = numberLineTask(age);
+      // Held to the reading guard like every served item
+      const unreadable = items.flatMap((item) => {
+        const check = checkReading(item, age);
+        return check.ok ? [] : [`"${item.questionText}": ${check.problems.join("; ")}`];
+      });
+      if (unreadable.length > 0) throw new Error(`Number line items are hard to read at age ${age}: ${unreadable.join(", ")}`);
+      const questionNumbers = items.map((_, i) => 1 + i);
+      const provenanceId = await recordProvenance(admin, { ...provenance, source: "local", questionNumbers, input: { task, age } });
+      const issued = await storeItems(admin, test.id, 1, items.map((question) => ({ question, provenanceId })));
+      return new Response(
+        JSON.stringify(issued.map(toPublicQuestion)),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (questionNumber === undefined) {
+      return new Response(
+        JSON.stringify({ error: "questionNumber is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const construct = canonicalConstruct(requestedConstruct);
+    if (!construct) {
+      return new Response(
+        JSON.stringify({ error: `Unknown construct "${requestedConstruct}"` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A retried request gets the item already issued for this question
+    const existing = count === 1 ? await loadItem(admin, test.id, questionNumber) : null;
+    if (existing) {
+      return new Response(
+        JSON.stringify(toPublicQuestion(existing.question)),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const testSeed = await loadTestSeed(admin, test.id);
+    const seed = itemSeed(testSeed, questionNumber);
+
+    // Items come from the pool; the model is only called to refill it
+    const key: PoolKey = { ageBand: ageBand(age), construct, difficultyLevel };
+    let drawn = ITEM_SOURCE === "ai" ? await drawPoolItems(admin, test.id, key, count, seed) : [];
+    if (ITEM_SOURCE === "ai" && drawn.length < count) {
+      // The quota is charged for every item asked of the model
+      const refillCount = Math.max(REFILL_BATCH, count - drawn.length);
+      const quota = await consumeQuota(admin, teacherId, "question", { amount: refillCount });
+      if (!quota.allowed) {
         return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify(quotaExceededBody("question", quota)),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(quota.retryAfter) } }
         );
       }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required. Please add credits to your workspace." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+
+      try {
+        await refillPool(admin, key, refillCount, { functionName: "generate-question", functionVersion: FUNCTION_VERSION });
+      } catch (error) {
+        console.warn("Falling back to local items:", error);
+        // Items the model failed to give are not charged
+        await refundQuota(admin, teacherId, "question", { amount: refillCount });
       }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error("AI gateway error");
+      drawn = [...drawn, ...await drawPoolItems(admin, test.id, key, count - drawn.length, seed, drawn.map((item) => item.id))];
     }
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    // Extract JSON from the response (array or object)
-    const jsonMatch = content.match(/\[[\s\S]*\]|\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("Failed to extract JSON from AI response");
-    }
-    
-    const result = JSON.parse(jsonMatch[0]);
+    // Whatever the pool could not provide comes from the seeded generators
+    const localNumbers = Array.from({ length: count - drawn.length }, (_, i) => questionNumber + drawn.length + i);
+    const localSeeds = localNumbers.map((n) => itemSeed(testSeed, n));
+    const localProvenanceId = localNumbers.length > 0
+      ? await recordProvenance(admin, {
+        ...provenance,
+        source: "local",
+        questionNumbers: localNumbers,
+        input: { construct, difficultyLevel, age, seeds: localSeeds },
+      })
+      : null;
+
+    const items: IssuedItem[] = [
+      ...drawn.map((item) => ({ question: item.question, provenanceId: item.provenanceId, poolItemId: item.id })),
+      ...localSeeds.map((localSeed) => ({ question: generateReadableQuestion(construct, difficultyLevel, age, localSeed, "generate-question"), provenanceId: localProvenanceId })),
+    ];
+
+    // The keys stay on the server; the browser gets the items without them
+    const issued = (await storeItems(admin, test.id, questionNumber, items)).map(toPublicQuestion);
 
     return new Response(
-      JSON.stringify(result),
+      JSON.stringify(count > 1 ? issued : issued[0]),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
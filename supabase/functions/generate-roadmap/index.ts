@@ -1,100 +1,359 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticateTeacher, authorizeTest, createAdminClient } from "../_shared/auth.ts";
+import { consumeQuota, quotaExceededBody } from "../_shared/quotas.ts";
+import { AIGatewayError, streamText } from "../_shared/ai-client.ts";
+import {
+  GeneratedRoadmapStepSchema,
+  PartialRoadmapSchema,
+  RoadmapHeaderSchema,
+  RoadmapRequestSchema,
+  requestError,
+  type RoadmapHeader,
+} from "../_shared/schemas.ts";
+import {
+  ROADMAP_SCHEMA_VERSION,
+  validateRoadmap,
+  type Roadmap,
+  type RoadmapStep,
+} from "../_shared/roadmap.ts";
+import {
+  ROADMAP_PROMPT,
+  ROADMAP_REVISION_PROMPT,
+  type RoadmapPromptBlocker,
+  type RoadmapPromptInput,
+  type RoadmapRevisionPromptInput,
+} from "../_shared/prompts.ts";
+import { recordProvenance } from "../_shared/provenance.ts";
+import { resolveResources, retrieveResources } from "../_shared/resources.ts";
+import { diffRoadmaps } from "../_shared/roadmap-diff.ts";
+import type { ChatMessage } from "../_shared/llm-providers.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Recorded with every roadmap's provenance; bump when the generation logic changes
+const FUNCTION_VERSION = 6;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { age, blockers, responses } = await req.json();
-    
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const request = RoadmapRequestSchema.safeParse(await req.json().catch(() => null));
+    if (!request.success) {
+      return new Response(
+        JSON.stringify({ error: requestError(request.error) }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
+    const { testId, blockers = [], responses = [], partial: partialInput } = request.data;
 
-    const blockersText = blockers.map((b: any) => `${b.blocker_name} (${b.error_count} errors)`).join(', ');
-    
-    const systemPrompt = `You are an expert dyscalculia remediation specialist. Based on the diagnostic test results, create a personalized 5-step remediation roadmap.
-
-Student Profile:
-- Age: ${age} years old
-- Detected Blockers: ${blockersText}
-- Total Test Responses: ${responses.length}
-
-Create a comprehensive, actionable 5-step roadmap. Each step must include:
-1. A clear, actionable goal title
-2. Detailed execution plan (day-wise or weekly breakdown)
-3. Specific resource/tool recommendations (apps, websites, worksheets, manipulatives)
-
-Return ONLY a JSON object with this exact structure:
-{
-  "overallSeverity": "none" | "mild" | "moderate" | "severe",
-  "summary": "Brief assessment summary",
-  "steps": [
-    {
-      "stepNumber": 1,
-      "title": "Actionable goal title",
-      "executionPlan": "Detailed day-wise/weekly plan",
-      "resources": ["Specific resource 1", "Specific resource 2"]
-    },
-    // ... 5 steps total
-  ]
-}`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: "Generate the personalized remediation roadmap." }
-        ],
-      }),
-    });
+    // Rewrites chosen steps of a saved roadmap from the teacher's feedback,
+    // instead of writing a new roadmap
+    const revise = request.data.revise ?? null;
+
+    // A roadmap whose stream dropped is continued from the steps it already has
+    const partialRoadmap = PartialRoadmapSchema.safeParse(partialInput);
+    const resumed = partialInput && !revise && partialRoadmap.success ? partialRoadmap.data : null;
+    const resumeFrom = resumed ? Math.max(0, ...resumed.steps.map((s) => s.stepNumber)) + 1 : 1;
 
-    if (!response.ok) {
-      if (response.status === 429) {
+    const admin = createAdminClient();
+    const teacherId = await authenticateTeacher(req, admin);
+    if (!teacherId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to continue" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const test = await authorizeTest(admin, teacherId, testId);
+    if (!test) {
+      return new Response(
+        JSON.stringify({ error: "Not allowed to generate a roadmap for this test" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    // A test's roadmap is saved once; from then on it is only revised
+    if (!revise) {
+      const { count, error } = await admin
+        .from("remediation_roadmaps")
+        .select("id", { count: "exact", head: true })
+        .eq("test_id", test.id);
+
+      if (error) throw error;
+      if (test.status === "completed" || (count ?? 0) > 0) {
         return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify({ error: "This test already has its roadmap" }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
-      if (response.status === 402) {
+    }
+
+    // The roadmap being revised, and the blockers it was written for
+    let current: { id: string; version: number; roadmap: Roadmap } | null = null;
+    let studentBlockers: RoadmapPromptBlocker[] = blockers;
+    if (revise) {
+      const { data: row, error } = await admin
+        .from("remediation_roadmaps")
+        .select("id, version, roadmap_data")
+        .eq("id", revise.roadmapId)
+        .eq("test_id", test.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!row) {
         return new Response(
-          JSON.stringify({ error: "Payment required. Please add credits to your workspace." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify({ error: "Roadmap not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error("AI gateway error");
+      if (row.version !== revise.baseVersion) {
+        return new Response(
+          JSON.stringify({ error: "The roadmap has been revised since you opened it. Reload it to see the changes." }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const parsed = validateRoadmap(row.roadmap_data);
+      if (!parsed.valid || !revise.stepNumbers.every((n) => parsed.roadmap.steps.some((s) => s.stepNumber === n))) {
+        return new Response(
+          JSON.stringify({ error: "The chosen steps are not in this roadmap" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      current = { id: row.id, version: row.version, roadmap: parsed.roadmap };
+
+      const { data: detected, error: blockersError } = await admin
+        .from("blockers_detected")
+        .select("blocker_name, blocker_type, error_count, confidence, is_confirmed, misconceptions")
+        .eq("test_id", test.id);
+
+      if (blockersError) throw blockersError;
+      // Rejected blockers play no part, as when the roadmap was written
+      studentBlockers = (detected || []).filter((b) => b.is_confirmed !== false);
     }
+    const studentAge = test.age_at_test;
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    // Extract JSON from the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("Failed to extract JSON from AI response");
+    // A test's roadmap is charged once, however often its stream is resumed;
+    // each revision is charged
+    const quota = await consumeQuota(admin, teacherId, "roadmap", { chargeKey: revise ? undefined : test.id });
+    if (!quota.allowed) {
+      return new Response(
+        JSON.stringify(quotaExceededBody("roadmap", quota)),
+        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(quota.retryAfter) } }
+      );
     }
-    
-    const roadmap = JSON.parse(jsonMatch[0]);
 
-    return new Response(
-      JSON.stringify(roadmap),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    // Resources are recommended only from the catalog entries for the
+    // student's blockers and age
+    const catalog = await retrieveResources(admin, studentBlockers.map((b) => b.blocker_name), studentAge);
+    const promptCatalog = catalog.map(({ id, name, kind, cost, description, constructs }) => ({ id, name, kind, cost, description, constructs }));
+
+    // The steps of a resumed roadmap come back from the browser, so their
+    // resources are held to the catalog like the model's
+    const partial = resumed
+      ? { ...resumed, steps: resumed.steps.map((step) => ({ ...step, resources: resolveResources(step.resources, catalog).resources })) }
+      : null;
+
+    const provenance = {
+      testId: test.id,
+      kind: "roadmap" as const,
+      questionNumbers: [],
+      functionName: "generate-roadmap",
+      functionVersion: FUNCTION_VERSION,
+      source: "model" as const,
+    };
+    let messages: ChatMessage[];
+    let temperature: number;
+    let recordOutput: (raw: string) => Promise<string>;
+    if (revise && current) {
+      const input: RoadmapRevisionPromptInput = {
+        age: studentAge,
+        blockers: studentBlockers,
+        catalog: promptCatalog,
+        roadmap: current.roadmap,
+        stepNumbers: revise.stepNumbers,
+        feedback: revise.feedback.trim(),
+      };
+      messages = ROADMAP_REVISION_PROMPT.render(input);
+      temperature = ROADMAP_REVISION_PROMPT.temperature;
+      recordOutput = (raw) => recordProvenance(admin, { ...provenance, template: ROADMAP_REVISION_PROMPT, input, rawOutputs: [raw] });
+    } else {
+      const input: RoadmapPromptInput = {
+        age: studentAge,
+        blockers,
+        catalog: promptCatalog,
+        responseCount: responses.length,
+        completedSteps: partial?.steps ?? [],
+      };
+      messages = ROADMAP_PROMPT.render(input);
+      temperature = ROADMAP_PROMPT.temperature;
+      recordOutput = (raw) => recordProvenance(admin, { ...provenance, template: ROADMAP_PROMPT, input, rawOutputs: [raw] });
+    }
+
+    const pieces = streamText(messages, {
+      temperature,
+      hint: {
+        kind: "roadmap",
+        blockers: studentBlockers.map((b) => b.blocker_name),
+        resourceIds: catalog.map((r) => r.id),
+        fromStep: resumeFrom,
+        onlySteps: revise?.stepNumbers,
+      },
+    });
+
+    // Wait for the first piece so that refusals still get an HTTP status
+    let first: IteratorResult<string>;
+    try {
+      first = await pieces.next();
+    } catch (error) {
+      // Rate limits and exhausted credits are passed on for the UI to explain
+      if (error instanceof AIGatewayError && (error.status === 429 || error.status === 402)) {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: error.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      throw error;
+    }
+
+    // Each line of output that parses is sent on as an event as soon as it is
+    // complete: "summary", then "step" per step, then "done" with the whole
+    // roadmap and the id of its provenance record once it is saved, or
+    // "error" if the output fell short. A revision streams only the rewritten
+    // steps, and is saved as a new version before "done", which also carries
+    // the version number.
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        let header: RoadmapHeader | null = partial ? { overallSeverity: partial.overallSeverity, summary: partial.summary } : null;
+        const steps: RoadmapStep[] = partial ? [...partial.steps] : [];
+
+        const handleLine = (line: string) => {
+          const text = line.trim();
+          if (!text.startsWith("{")) return;
+
+          let value: { type?: string };
+          try {
+            value = JSON.parse(text);
+          } catch {
+            console.warn(JSON.stringify({ event: "roadmap-line-rejected", reason: "not valid JSON", line: text }));
+            return;
+          }
+
+          if (value.type === "summary" && !header && !revise) {
+            const parsed = RoadmapHeaderSchema.safeParse(value);
+            if (parsed.success) {
+              header = parsed.data;
+              send("summary", header);
+              return;
+            }
+          } else if (value.type === "step") {
+            const parsed = GeneratedRoadmapStepSchema.safeParse(value);
+            if (
+              parsed.success &&
+              !steps.some((s) => s.stepNumber === parsed.data.stepNumber) &&
+              (!revise || revise.stepNumbers.includes(parsed.data.stepNumber))
+            ) {
+              // Resources the model was not offered are dropped from the step
+              const { resources, rejected } = resolveResources(parsed.data.resources, catalog);
+              if (rejected.length > 0) {
+                console.warn(JSON.stringify({ event: "roadmap-resource-rejected", stepNumber: parsed.data.stepNumber, resourceIds: rejected }));
+              }
+              const step = { ...parsed.data, resources };
+              steps.push(step);
+              send("step", step);
+              return;
+            }
+          }
+          console.warn(JSON.stringify({ event: "roadmap-line-rejected", reason: "unexpected line", line: text }));
+        };
+
+        // The whole output, for the provenance record
+        let raw = first.done ? "" : first.value;
+
+        try {
+          let buffer = raw;
+          const flush = () => {
+            let newline;
+            while ((newline = buffer.indexOf("\n")) !== -1) {
+              handleLine(buffer.slice(0, newline));
+              buffer = buffer.slice(newline + 1);
+            }
+          };
+
+          flush();
+          for await (const piece of pieces) {
+            raw += piece;
+            buffer += piece;
+            flush();
+          }
+          handleLine(buffer);
+
+          if (revise && current) {
+            if (revise.stepNumbers.every((n) => steps.some((s) => s.stepNumber === n))) {
+              const revised = {
+                ...current.roadmap,
+                steps: current.roadmap.steps.map((s) => steps.find((r) => r.stepNumber === s.stepNumber) ?? s),
+              };
+              const provenanceId = await recordOutput(raw);
+              const { data: version, error } = await admin.rpc("save_roadmap_revision", {
+                p_roadmap_id: current.id,
+                p_base_version: current.version,
+                p_author_id: teacherId,
+                p_source: "feedback",
+                p_roadmap_data: revised,
+                p_diff: diffRoadmaps(current.roadmap, revised),
+                p_feedback: revise.feedback.trim(),
+                p_step_numbers: revise.stepNumbers,
+                p_provenance_id: provenanceId,
+              });
+
+              if (error) {
+                // Nothing refers to the record of a revision that was not saved
+                await admin.from("generation_provenance").delete().eq("id", provenanceId);
+                if (error.code !== "40001") throw error;
+                send("error", { error: "The roadmap was revised by someone else while these steps were rewritten. Reload it and try again." });
+              } else {
+                send("done", { roadmap: revised, provenanceId, version });
+              }
+            } else {
+              send("error", { error: "The rewritten steps were incomplete" });
+            }
+            return;
+          }
+
+          const roadmap = validateRoadmap({ schemaVersion: ROADMAP_SCHEMA_VERSION, ...header, steps });
+          if (roadmap.valid) {
+            const provenanceId = await recordOutput(raw);
+            const { error } = await admin
+              .from("remediation_roadmaps")
+              .insert({ test_id: test.id, roadmap_data: roadmap.roadmap, provenance_id: provenanceId });
+
+            if (error) throw error;
+            send("done", { roadmap: roadmap.roadmap, provenanceId });
+          } else {
+            send("error", { error: "The roadmap output was incomplete" });
+          }
+        } catch (error) {
+          console.error("Roadmap stream failed:", error);
+          send("error", { error: error instanceof Error ? error.message : "Unknown error" });
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(body, {
+      headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
   } catch (error) {
     console.error("Error in generate-roadmap:", error);
     return new Response(
@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createAdminClient } from "../_shared/auth.ts";
+import { CONSTRUCTS, MAX_DIFFICULTY, MIN_DIFFICULTY } from "../_shared/constructs.ts";
+import { AGE_BANDS, POOL_TARGET, REFILL_BATCH, refillPool, type PoolKey } from "../_shared/item-pool.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Recorded with every item's provenance; bump when the generation logic changes
+const FUNCTION_VERSION = 1;
+
+// Keys topped up per call, keeping a run well inside the function time limit
+const DEFAULT_MAX_KEYS = 10;
+
+// Batch job that tops up the item pool: every age band, construct and
+// difficulty with fewer than POOL_TARGET items gets a refill, the emptiest
+// first. Meant to be called on a schedule (e.g. pg_cron with pg_net) with the
+// service role key; it is not counted against any teacher's quota.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+    if (!token || token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      return new Response(
+        JSON.stringify({ error: "Only the service role can refill the item pool" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { maxKeys = DEFAULT_MAX_KEYS } = await req.json().catch(() => ({}));
+    const admin = createAdminClient();
+
+    const { data: stock, error } = await admin
+      .from("item_pool_stock")
+      .select("age_band, construct, difficulty_level, item_count");
+
+    if (error) throw error;
+    const counts = new Map((stock || []).map((row) => [`${row.age_band}|${row.construct}|${row.difficulty_level}`, row.item_count as number]));
+
+    const short: (PoolKey & { stock: number })[] = [];
+    for (const band of AGE_BANDS) {
+      for (const construct of CONSTRUCTS) {
+        for (let difficultyLevel = MIN_DIFFICULTY; difficultyLevel <= MAX_DIFFICULTY; difficultyLevel++) {
+          const count = counts.get(`${band.name}|${construct}|${difficultyLevel}`) ?? 0;
+          if (count < POOL_TARGET) short.push({ ageBand: band.name, construct, difficultyLevel, stock: count });
+        }
+      }
+    }
+    short.sort((a, b) => a.stock - b.stock);
+
+    // One key failing (a refusal, output that never validates) does not stop
+    // the others
+    const refilled = [];
+    for (const { stock: before, ...key } of short.slice(0, maxKeys)) {
+      try {
+        const added = await refillPool(admin, key, Math.min(REFILL_BATCH, POOL_TARGET - before), {
+          functionName: "refill-item-pool",
+          functionVersion: FUNCTION_VERSION,
+        });
+        refilled.push({ ...key, added });
+      } catch (error) {
+        console.error("Refill failed for", key, error);
+        refilled.push({ ...key, added: 0, error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ refilled, shortKeys: short.length }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in refill-item-pool:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { classifyQuestionError, scoreQuestion } from "../_shared/items.ts";
+import { authenticateTeacher, authorizeTest, createAdminClient } from "../_shared/auth.ts";
+import { loadItem } from "../_shared/test-items.ts";
+import { gradeLevel } from "../_shared/readability.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Scores an answer against the key held on the server and records the
+// response. The key is returned with the result, once the answer is locked in.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { testId, questionNumber, answer, shownAt, firstInputAt, submittedAt, editCount } = await req.json();
+
+    const admin = createAdminClient();
+    const teacherId = await authenticateTeacher(req, admin);
+    if (!teacherId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to continue" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const test = await authorizeTest(admin, teacherId, testId);
+    if (!test) {
+      return new Response(
+        JSON.stringify({ error: "Not allowed to answer for this test" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (test.status === "completed") {
+      return new Response(
+        JSON.stringify({ error: "This assessment has already been completed" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const issued = await loadItem(admin, test.id, questionNumber);
+    if (!issued) {
+      return new Response(
+        JSON.stringify({ error: `Question ${questionNumber} was never issued for this test` }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { question, provenanceId } = issued;
+
+    // A retried submission gets the result already on record
+    const storedResult = async () => {
+      const { data, error } = await admin
+        .from("test_responses")
+        .select("is_correct, match_rule, misconception, correct_answer")
+        .eq("test_id", test.id)
+        .eq("question_number", questionNumber)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data && {
+        isCorrect: data.is_correct,
+        matchRule: data.match_rule,
+        misconception: data.misconception,
+        correctAnswer: data.correct_answer,
+      };
+    };
+
+    const existing = await storedResult();
+    if (existing) {
+      return new Response(
+        JSON.stringify(existing),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userAnswer = String(answer ?? "");
+    const { isCorrect, rule } = scoreQuestion(question, userAnswer);
+    const misconception = classifyQuestionError(question, userAnswer, isCorrect);
+
+    const { error } = await admin
+      .from("test_responses")
+      .insert({
+        test_id: test.id,
+        question_number: questionNumber,
+        question_text: question.questionText,
+        readability_grade: gradeLevel(question.questionText),
+        item_type: question.itemType,
+        user_answer: userAnswer,
+        correct_answer: question.correctAnswer,
+        is_correct: isCorrect,
+        match_rule: rule,
+        misconception,
+        construct_tested: question.construct,
+        difficulty_level: question.difficultyLevel,
+        shown_at: shownAt ?? null,
+        first_input_at: firstInputAt ?? null,
+        submitted_at: submittedAt ?? new Date().toISOString(),
+        edit_count: editCount ?? null,
+        provenance_id: provenanceId,
+      });
+
+    // Two submissions racing for the same item: the first one recorded wins
+    if (error?.code === "23505") {
+      return new Response(
+        JSON.stringify(await storedResult()),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ isCorrect, matchRule: rule, misconception, correctAnswer: question.correctAnswer }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in submit-answer:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
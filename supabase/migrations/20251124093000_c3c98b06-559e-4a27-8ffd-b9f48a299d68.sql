@@ -0,0 +1,3 @@
+-- Store the adaptive engine's final ability estimate and standard error per construct
+ALTER TABLE public.diagnostic_tests
+  ADD COLUMN ability_estimates JSONB;
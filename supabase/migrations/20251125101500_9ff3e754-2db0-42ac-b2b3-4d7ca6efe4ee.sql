@@ -0,0 +1,16 @@
+-- Persist the generated question set so interrupted sessions can be resumed
+ALTER TABLE public.diagnostic_tests
+  ADD COLUMN question_set JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN main_test_length INTEGER;
+
+-- Blockers are re-detected when a session resumes after the main test
+CREATE POLICY "Teachers can delete blockers for their students' tests"
+  ON public.blockers_detected FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.diagnostic_tests dt
+      JOIN public.students s ON dt.student_id = s.id
+      WHERE dt.id = blockers_detected.test_id
+      AND s.teacher_id = auth.uid()
+    )
+  );
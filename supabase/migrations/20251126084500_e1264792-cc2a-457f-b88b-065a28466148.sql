@@ -0,0 +1,3 @@
+-- Record which equivalence rule the answer checker applied to each response
+ALTER TABLE public.test_responses
+  ADD COLUMN match_rule TEXT;
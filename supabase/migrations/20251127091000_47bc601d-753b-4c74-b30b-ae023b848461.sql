@@ -0,0 +1,15 @@
+-- Per-item timing for response latency analytics
+ALTER TABLE public.test_responses
+  ADD COLUMN shown_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN first_input_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN edit_count INTEGER;
+
+-- Per-construct fluency metrics (median latency, correct-but-slow rate)
+ALTER TABLE public.diagnostic_tests
+  ADD COLUMN fluency_metrics JSONB;
+
+-- Blockers are flagged either for errors or for accurate but slow retrieval
+ALTER TABLE public.blockers_detected
+  ADD COLUMN blocker_type TEXT NOT NULL DEFAULT 'accuracy'
+    CHECK (blocker_type IN ('accuracy', 'fluency'));
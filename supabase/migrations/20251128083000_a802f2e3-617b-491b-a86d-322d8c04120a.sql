@@ -0,0 +1,5 @@
+-- Each blocker is confirmed or rejected on its own confirmatory items.
+-- is_confirmed stays NULL for blockers that were never probed.
+ALTER TABLE public.blockers_detected
+  ALTER COLUMN is_confirmed SET DEFAULT NULL,
+  ADD COLUMN confirmatory_score REAL;
@@ -0,0 +1,3 @@
+-- Confidence from the probabilistic blocker model (probability of a deficit)
+ALTER TABLE public.blockers_detected
+  ADD COLUMN confidence REAL;
@@ -0,0 +1,7 @@
+-- Misconception category for each wrong answer
+ALTER TABLE public.test_responses
+  ADD COLUMN misconception TEXT;
+
+-- Misconception counts rolled up per blocker
+ALTER TABLE public.blockers_detected
+  ADD COLUMN misconceptions JSONB NOT NULL DEFAULT '{}'::jsonb;
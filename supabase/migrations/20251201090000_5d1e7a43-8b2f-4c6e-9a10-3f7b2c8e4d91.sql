@@ -0,0 +1,4 @@
+-- Item type of each response; non-text answers are stored as text too
+ALTER TABLE public.test_responses
+  ADD COLUMN item_type TEXT NOT NULL DEFAULT 'free-text'
+  CHECK (item_type IN ('free-text', 'multiple-choice', 'number-line', 'dot-comparison', 'ordering'));
@@ -0,0 +1,4 @@
+-- Number line estimation results: placements, percent absolute error and
+-- linear vs logarithmic model fits
+ALTER TABLE public.diagnostic_tests
+  ADD COLUMN number_line_estimation JSONB;
@@ -0,0 +1,4 @@
+-- Seed for locally generated items; the same seed and answers reproduce the
+-- same test form
+ALTER TABLE public.diagnostic_tests
+  ADD COLUMN item_seed BIGINT;
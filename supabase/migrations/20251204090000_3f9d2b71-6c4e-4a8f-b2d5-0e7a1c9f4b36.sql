@@ -0,0 +1,40 @@
+-- Answer keys for every item issued to a test. Only the edge functions read
+-- this table (with the service role); RLS is enabled with no policies so the
+-- keys are never readable from the browser.
+CREATE TABLE public.item_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  test_id UUID NOT NULL REFERENCES public.diagnostic_tests(id) ON DELETE CASCADE,
+  question_number INTEGER NOT NULL,
+  item JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (test_id, question_number)
+);
+
+ALTER TABLE public.item_keys ENABLE ROW LEVEL SECURITY;
+
+-- Tests already under way keep their items: the keys move out of the stored
+-- question set and into item_keys
+INSERT INTO public.item_keys (test_id, question_number, item)
+  SELECT dt.id, q.question_number, q.item
+  FROM public.diagnostic_tests dt,
+    jsonb_array_elements(dt.question_set) WITH ORDINALITY AS q(item, question_number);
+
+UPDATE public.diagnostic_tests
+  SET question_set = (
+    SELECT COALESCE(jsonb_agg(q.item - 'correctAnswer' - 'target' - 'tolerance' - 'correctOrder' ORDER BY q.n), '[]'::jsonb)
+    FROM jsonb_array_elements(question_set) WITH ORDINALITY AS q(item, n)
+  );
+
+-- Responses are scored and written by the submit-answer function; the browser
+-- can no longer insert its own is_correct
+DROP POLICY "Teachers can create responses for their students' tests" ON public.test_responses;
+
+-- One response per item, so a retried submission cannot be recorded twice
+DELETE FROM public.test_responses a
+  USING public.test_responses b
+  WHERE a.test_id = b.test_id
+  AND a.question_number = b.question_number
+  AND a.created_at > b.created_at;
+
+CREATE UNIQUE INDEX test_responses_test_question_idx
+  ON public.test_responses (test_id, question_number);
@@ -0,0 +1,67 @@
+-- Per-teacher daily limits on AI generation. Teachers without a row here get
+-- the defaults in the edge functions.
+CREATE TABLE public.generation_quotas (
+  teacher_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('question', 'confirmatory-test', 'roadmap')),
+  daily_limit INTEGER NOT NULL CHECK (daily_limit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (teacher_id, kind)
+);
+
+-- Generations counted per teacher, kind and UTC day
+CREATE TABLE public.generation_usage (
+  teacher_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  usage_date DATE NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (teacher_id, kind, usage_date)
+);
+
+ALTER TABLE public.generation_quotas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.generation_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view their own quotas"
+  ON public.generation_quotas FOR SELECT
+  USING (auth.uid() = teacher_id);
+
+CREATE POLICY "Teachers can view their own usage"
+  ON public.generation_usage FOR SELECT
+  USING (auth.uid() = teacher_id);
+
+-- Counts one generation against the teacher's quota for today, unless the
+-- quota is used up. Checking and counting in one statement keeps concurrent
+-- requests from overshooting the limit.
+CREATE OR REPLACE FUNCTION public.consume_generation_quota(p_teacher_id UUID, p_kind TEXT, p_default_limit INTEGER)
+RETURNS TABLE (allowed BOOLEAN, used INTEGER, daily_limit INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+  v_used INTEGER;
+BEGIN
+  SELECT q.daily_limit INTO v_limit
+  FROM generation_quotas q
+  WHERE q.teacher_id = p_teacher_id AND q.kind = p_kind;
+  v_limit := COALESCE(v_limit, p_default_limit);
+
+  IF v_limit > 0 THEN
+    INSERT INTO generation_usage AS u (teacher_id, kind, usage_date, count)
+    VALUES (p_teacher_id, p_kind, (NOW() AT TIME ZONE 'utc')::date, 1)
+    ON CONFLICT (teacher_id, kind, usage_date)
+    DO UPDATE SET count = u.count + 1
+    WHERE u.count < v_limit
+    RETURNING u.count INTO v_used;
+  END IF;
+
+  IF v_used IS NULL THEN
+    RETURN QUERY SELECT FALSE, v_limit, v_limit;
+  ELSE
+    RETURN QUERY SELECT TRUE, v_used, v_limit;
+  END IF;
+END;
+$$;
+
+-- Only the edge functions (service role) may count usage
+REVOKE EXECUTE ON FUNCTION public.consume_generation_quota(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
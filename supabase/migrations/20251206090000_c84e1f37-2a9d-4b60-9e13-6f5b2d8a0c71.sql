@@ -0,0 +1,51 @@
+-- Where every generated item and roadmap came from: the model and provider,
+-- the prompt template and version, the edge function version, the input that
+-- was rendered into the prompt and the raw model output. Items from the
+-- seeded generators are recorded too, with source 'local' and no model.
+CREATE TABLE public.generation_provenance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id UUID NOT NULL REFERENCES public.diagnostic_tests(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('question', 'confirmatory-test', 'roadmap')),
+  -- The items the record covers; empty for a roadmap
+  question_numbers INTEGER[] NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL CHECK (source IN ('model', 'local')),
+  provider TEXT,
+  model TEXT,
+  temperature REAL,
+  prompt_name TEXT,
+  prompt_version INTEGER,
+  function_name TEXT NOT NULL,
+  function_version INTEGER NOT NULL,
+  input JSONB NOT NULL,
+  -- SHA-256 of the rendered prompt, model and temperature (of the input for
+  -- local items), so identical requests can be found
+  input_hash TEXT NOT NULL,
+  -- The model output of each generation round, items later rejected included
+  raw_outputs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX generation_provenance_test_id_idx ON public.generation_provenance(test_id);
+
+ALTER TABLE public.generation_provenance ENABLE ROW LEVEL SECURITY;
+
+-- Records are written by the edge functions with the service role
+CREATE POLICY "Teachers can view provenance for their students' tests"
+  ON public.generation_provenance FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.diagnostic_tests dt
+      JOIN public.students s ON dt.student_id = s.id
+      WHERE dt.id = generation_provenance.test_id
+      AND s.teacher_id = auth.uid()
+    )
+  );
+
+ALTER TABLE public.item_keys
+  ADD COLUMN provenance_id UUID REFERENCES public.generation_provenance(id) ON DELETE SET NULL;
+
+ALTER TABLE public.test_responses
+  ADD COLUMN provenance_id UUID REFERENCES public.generation_provenance(id) ON DELETE SET NULL;
+
+ALTER TABLE public.remediation_roadmaps
+  ADD COLUMN provenance_id UUID REFERENCES public.generation_provenance(id) ON DELETE SET NULL;
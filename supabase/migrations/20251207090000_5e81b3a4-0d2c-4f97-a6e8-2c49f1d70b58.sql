@@ -0,0 +1,43 @@
+-- Generated items kept for reuse, keyed by age band, construct and difficulty.
+-- The question endpoints serve from here first and only call the model to
+-- refill a key that runs short; refill-item-pool tops every key up in batch.
+CREATE TABLE public.item_pool (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  age_band TEXT NOT NULL,
+  construct TEXT NOT NULL,
+  difficulty_level INTEGER NOT NULL CHECK (difficulty_level BETWEEN 1 AND 5),
+  item JSONB NOT NULL,
+  -- Hash of the normalised question, type and key; the same item is pooled once
+  fingerprint TEXT NOT NULL,
+  provenance_id UUID REFERENCES public.generation_provenance(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (age_band, construct, difficulty_level, fingerprint)
+);
+
+-- Pooled items carry their answer keys: only the service role reads them
+ALTER TABLE public.item_pool ENABLE ROW LEVEL SECURITY;
+
+-- Items in stock per key, for the refill job
+CREATE VIEW public.item_pool_stock
+WITH (security_invoker = true) AS
+  SELECT age_band, construct, difficulty_level, COUNT(*)::INTEGER AS item_count
+  FROM public.item_pool
+  GROUP BY age_band, construct, difficulty_level;
+
+-- The pool item each issued item was drawn from, so a test never gets the
+-- same pooled item twice
+ALTER TABLE public.item_keys
+  ADD COLUMN pool_item_id UUID REFERENCES public.item_pool(id) ON DELETE SET NULL;
+
+-- Pool items are generated for no test in particular. Their provenance is
+-- recorded without a test and can be read by any signed-in teacher, since it
+-- holds no student data.
+ALTER TABLE public.generation_provenance ALTER COLUMN test_id DROP NOT NULL;
+
+ALTER TABLE public.generation_provenance DROP CONSTRAINT generation_provenance_kind_check;
+ALTER TABLE public.generation_provenance
+  ADD CONSTRAINT generation_provenance_kind_check CHECK (kind IN ('question', 'confirmatory-test', 'roadmap', 'pool'));
+
+CREATE POLICY "Teachers can view provenance of pooled items"
+  ON public.generation_provenance FOR SELECT
+  USING (test_id IS NULL AND auth.uid() IS NOT NULL);
@@ -0,0 +1,5 @@
+-- Flesch-Kincaid grade of each item's question text, so teachers can tell
+-- answers to wordy items apart from the rest. Computed by the edge functions.
+ALTER TABLE public.item_pool ADD COLUMN readability_grade REAL;
+
+ALTER TABLE public.test_responses ADD COLUMN readability_grade REAL;
@@ -0,0 +1,111 @@
+-- Vetted remediation resources. Roadmaps recommend only resources from this
+-- catalog, retrieved by the student's blockers and age, and refer to them by
+-- id, so the model cannot recommend apps or websites that do not exist.
+CREATE TABLE public.resources (
+  -- A readable slug, which is what the roadmap prompt lists and the model returns
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Apps include websites used in the browser
+  kind TEXT NOT NULL CHECK (kind IN ('intervention', 'manipulative', 'worksheet', 'app')),
+  description TEXT NOT NULL,
+  url TEXT,
+  -- The constructs the resource helps with
+  constructs TEXT[] NOT NULL,
+  min_age INTEGER NOT NULL,
+  max_age INTEGER NOT NULL,
+  -- free; low: a one-off purchase of a few pounds; paid: a subscription or a set costing more
+  cost TEXT NOT NULL CHECK (cost IN ('free', 'low', 'paid')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (min_age <= max_age)
+);
+
+CREATE INDEX resources_constructs_idx ON public.resources USING GIN (constructs);
+
+ALTER TABLE public.resources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view resources"
+  ON public.resources FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.resources (id, name, kind, description, url, constructs, min_age, max_age, cost) VALUES
+  ('base-ten-blocks', 'Base-ten blocks', 'manipulative',
+    'Unit cubes, rods of ten and flats of a hundred for building numbers and exchanging ten ones for a ten.',
+    NULL, ARRAY['Place Value', 'Number Sense', 'Basic Arithmetic'], 5, 12, 'low'),
+  ('cuisenaire-rods', 'Cuisenaire rods', 'manipulative',
+    'Coloured rods of lengths 1 to 10 for comparing quantities, number bonds and early fractions.',
+    NULL, ARRAY['Number Sense', 'Basic Arithmetic', 'Pattern Recognition'], 5, 12, 'low'),
+  ('numicon', 'Numicon shapes', 'manipulative',
+    'Plates for 1 to 10 that show each number as a fixed arrangement of holes, for seeing number relationships.',
+    NULL, ARRAY['Number Sense', 'Basic Arithmetic', 'Pattern Recognition'], 5, 9, 'paid'),
+  ('rekenrek', 'Rekenrek (arithmetic rack)', 'manipulative',
+    'Two rows of ten beads grouped in fives, for seeing quantities at a glance and strategies within 20.',
+    NULL, ARRAY['Number Sense', 'Basic Arithmetic'], 5, 9, 'low'),
+  ('linking-cubes', 'Linking cubes', 'manipulative',
+    'Snap-together cubes for repeating patterns, counting in groups and building 3D shapes.',
+    NULL, ARRAY['Pattern Recognition', 'Spatial Reasoning', 'Basic Arithmetic'], 5, 11, 'low'),
+  ('pattern-blocks', 'Pattern blocks', 'manipulative',
+    'Six geometric shapes for continuing patterns, composing shapes and exploring symmetry.',
+    NULL, ARRAY['Spatial Reasoning', 'Pattern Recognition'], 5, 12, 'low'),
+  ('tangrams', 'Tangrams', 'manipulative',
+    'Seven-piece dissection puzzle for composing shapes and practising mental rotation.',
+    NULL, ARRAY['Spatial Reasoning'], 6, 16, 'low'),
+  ('geoboard', 'Geoboard', 'manipulative',
+    'Pegboard and elastic bands for making shapes and exploring sides, corners, area and perimeter.',
+    NULL, ARRAY['Spatial Reasoning'], 6, 12, 'low'),
+  ('dice-and-dominoes', 'Dice and dominoes', 'manipulative',
+    'Dot patterns for recognising small quantities at a glance and for number bond and doubling games.',
+    NULL, ARRAY['Number Sense', 'Basic Arithmetic'], 5, 10, 'low'),
+  ('playing-cards', 'Playing card games', 'manipulative',
+    'A standard deck for games such as Make Ten, comparison games and pairs, practising facts and recall.',
+    NULL, ARRAY['Basic Arithmetic', 'Number Sense', 'Working Memory'], 6, 16, 'low'),
+  ('ten-frames', 'Ten frames and counters', 'worksheet',
+    'Printable 2 by 5 grids for seeing numbers to 10 and 20 in relation to five and ten.',
+    NULL, ARRAY['Number Sense', 'Basic Arithmetic', 'Place Value'], 5, 8, 'free'),
+  ('dot-cards', 'Dot pattern cards', 'worksheet',
+    'Printable cards of dot arrangements, shown briefly, for quick-look recognition of quantities.',
+    NULL, ARRAY['Number Sense', 'Working Memory'], 5, 9, 'free'),
+  ('number-lines', 'Printable number lines', 'worksheet',
+    'Marked and blank number lines from 0-10 to 0-1000 for placing, comparing and estimating numbers.',
+    NULL, ARRAY['Number Sense', 'Place Value'], 5, 16, 'free'),
+  ('hundred-square', 'Hundred square', 'worksheet',
+    'A 1 to 100 grid for counting on and back in ones and tens and spotting number patterns.',
+    NULL, ARRAY['Place Value', 'Pattern Recognition', 'Number Sense'], 5, 10, 'free'),
+  ('place-value-charts', 'Place value charts and digit cards', 'worksheet',
+    'Columns for thousands, hundreds, tens and ones with digit cards to move between them.',
+    NULL, ARRAY['Place Value'], 7, 16, 'free'),
+  ('cra-sequence', 'Concrete-representational-abstract sequence', 'intervention',
+    'Teach each idea with objects first, then with drawings, then with symbols, moving on only when secure.',
+    NULL, ARRAY['Number Sense', 'Place Value', 'Basic Arithmetic'], 5, 16, 'free'),
+  ('number-talks', 'Number talks', 'intervention',
+    'Short daily discussions of how a mental calculation was worked out, building flexible strategies.',
+    NULL, ARRAY['Number Sense', 'Basic Arithmetic'], 6, 16, 'free'),
+  ('incremental-rehearsal', 'Incremental rehearsal of facts', 'intervention',
+    'Flashcard practice that mixes one unknown fact at a time into a run of known facts.',
+    NULL, ARRAY['Basic Arithmetic', 'Working Memory'], 6, 16, 'free'),
+  ('cover-copy-compare', 'Cover, copy, compare', 'intervention',
+    'Self-checked fact practice: read a fact, cover it, write it from memory, then compare.',
+    NULL, ARRAY['Basic Arithmetic'], 7, 16, 'free'),
+  ('bar-models', 'Bar model drawing', 'intervention',
+    'Drawing word problems as bars for the parts and the whole, so the student need not hold them in mind.',
+    NULL, ARRAY['Working Memory', 'Basic Arithmetic'], 7, 16, 'free'),
+  ('working-notes', 'Chunking with working notes', 'intervention',
+    'Breaking multi-step problems into single steps and writing down each intermediate result.',
+    NULL, ARRAY['Working Memory'], 7, 16, 'free'),
+  ('memory-games', 'Memory games (Pairs, Kim''s game)', 'intervention',
+    'Short games of remembering hidden cards or objects, with numbers and shapes as the content.',
+    NULL, ARRAY['Working Memory'], 5, 10, 'free'),
+  ('khan-academy-kids', 'Khan Academy Kids', 'app',
+    'Free app of early maths activities for counting, comparing, shapes and simple addition.',
+    'https://learn.khanacademy.org/khan-academy-kids/', ARRAY['Number Sense', 'Basic Arithmetic', 'Pattern Recognition', 'Spatial Reasoning'], 5, 8, 'free'),
+  ('khan-academy', 'Khan Academy', 'app',
+    'Free videos and practice exercises by grade, with hints and progress tracking.',
+    'https://www.khanacademy.org', ARRAY['Place Value', 'Basic Arithmetic', 'Number Sense'], 7, 16, 'free'),
+  ('dragonbox-numbers', 'DragonBox Numbers', 'app',
+    'Game in which numbers are characters to stack, split and compare, building number sense.',
+    NULL, ARRAY['Number Sense', 'Basic Arithmetic'], 5, 9, 'paid'),
+  ('nrich', 'NRICH', 'app',
+    'Free problems, games and investigations, searchable by age and topic.',
+    'https://nrich.maths.org', ARRAY['Pattern Recognition', 'Spatial Reasoning', 'Number Sense'], 5, 16, 'free'),
+  ('polypad', 'Polypad virtual manipulatives', 'app',
+    'Free browser-based base-ten blocks, number lines, fraction bars and shapes.',
+    'https://mathigon.org/polypad', ARRAY['Place Value', 'Spatial Reasoning', 'Number Sense', 'Pattern Recognition'], 7, 16, 'free');
@@ -0,0 +1,122 @@
+-- Roadmaps can be revised by the teacher, by editing steps directly or by
+-- asking generate-roadmap to rewrite chosen steps from their feedback. The
+-- roadmap row holds the current version; every version, including the
+-- generated one, is kept in roadmap_revisions with its author and what changed.
+ALTER TABLE public.remediation_roadmaps
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE TABLE public.roadmap_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  roadmap_id UUID NOT NULL REFERENCES public.remediation_roadmaps(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- generated: the roadmap as first written; edit: changed by hand;
+  -- feedback: steps rewritten by the model from the teacher's feedback
+  source TEXT NOT NULL CHECK (source IN ('generated', 'edit', 'feedback')),
+  feedback TEXT,
+  -- The steps the feedback asked to rewrite
+  step_numbers INTEGER[] NOT NULL DEFAULT '{}',
+  -- The whole roadmap at this version
+  roadmap_data JSONB NOT NULL,
+  -- The changes from the previous version, as listed by diffRoadmaps (roadmap-diff.ts)
+  diff JSONB NOT NULL DEFAULT '[]',
+  provenance_id UUID REFERENCES public.generation_provenance(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (roadmap_id, version)
+);
+
+ALTER TABLE public.roadmap_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view revisions of their students' roadmaps"
+  ON public.roadmap_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.remediation_roadmaps r
+      JOIN public.diagnostic_tests dt ON r.test_id = dt.id
+      JOIN public.students s ON dt.student_id = s.id
+      WHERE r.id = roadmap_revisions.roadmap_id
+      AND s.teacher_id = auth.uid()
+    )
+  );
+
+-- The generated roadmap is version 1
+INSERT INTO public.roadmap_revisions (roadmap_id, version, author_id, source, roadmap_data, provenance_id, created_at)
+SELECT r.id, 1, s.teacher_id, 'generated', r.roadmap_data, r.provenance_id, r.created_at
+FROM public.remediation_roadmaps r
+JOIN public.diagnostic_tests dt ON r.test_id = dt.id
+JOIN public.students s ON dt.student_id = s.id;
+
+CREATE OR REPLACE FUNCTION public.record_generated_roadmap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO roadmap_revisions (roadmap_id, version, author_id, source, roadmap_data, provenance_id)
+  VALUES (NEW.id, NEW.version, auth.uid(), 'generated', NEW.roadmap_data, NEW.provenance_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_roadmap_created
+  AFTER INSERT ON public.remediation_roadmaps
+  FOR EACH ROW EXECUTE FUNCTION public.record_generated_roadmap();
+
+-- Saves a new version of the roadmap and its revision record, and returns
+-- the version number. Fails with serialization_failure (40001) if the roadmap
+-- is no longer at p_base_version, so that two teachers editing at once do not
+-- overwrite each other. Teachers save under their own account; the edge
+-- functions (service role) pass the teacher they authenticated.
+CREATE OR REPLACE FUNCTION public.save_roadmap_revision(
+  p_roadmap_id UUID,
+  p_base_version INTEGER,
+  p_author_id UUID,
+  p_source TEXT,
+  p_roadmap_data JSONB,
+  p_diff JSONB,
+  p_feedback TEXT DEFAULT NULL,
+  p_step_numbers INTEGER[] DEFAULT '{}',
+  p_provenance_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_author_id THEN
+    RAISE EXCEPTION 'Revisions can only be saved under your own account' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM remediation_roadmaps r
+    JOIN diagnostic_tests dt ON r.test_id = dt.id
+    JOIN students s ON dt.student_id = s.id
+    WHERE r.id = p_roadmap_id
+    AND s.teacher_id = p_author_id
+  ) THEN
+    RAISE EXCEPTION 'Roadmap not found' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE remediation_roadmaps
+  SET roadmap_data = p_roadmap_data, version = version + 1, updated_at = NOW()
+  WHERE id = p_roadmap_id AND version = p_base_version
+  RETURNING version INTO v_version;
+
+  IF v_version IS NULL THEN
+    RAISE EXCEPTION 'The roadmap has been revised since version %', p_base_version USING ERRCODE = '40001';
+  END IF;
+
+  INSERT INTO roadmap_revisions (roadmap_id, version, author_id, source, feedback, step_numbers, roadmap_data, diff, provenance_id)
+  VALUES (p_roadmap_id, v_version, p_author_id, p_source, p_feedback, p_step_numbers, p_roadmap_data, p_diff, p_provenance_id);
+
+  RETURN v_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_roadmap_revision(UUID, INTEGER, UUID, TEXT, JSONB, JSONB, TEXT, INTEGER[], UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_roadmap_revision(UUID, INTEGER, UUID, TEXT, JSONB, JSONB, TEXT, INTEGER[], UUID) TO authenticated;
@@ -0,0 +1,78 @@
+-- Roadmaps carry a schemaVersion, and stored roadmaps are upgraded to version
+-- 2, the shape in supabase/functions/_shared/roadmap.ts:
+--   {schemaVersion, overallSeverity, summary,
+--    steps: [{stepNumber, title, executionPlan,
+--             resources: [{resourceId, name, kind, cost, url, use}]}]}
+-- Unversioned roadmaps come in two shapes: steps with resources as plain
+-- names, and steps of {step, title, description, activities, duration}.
+-- Plain resource names that match a catalog entry are linked to it.
+CREATE FUNCTION public.upgrade_roadmap_data(p_data JSONB, p_severity TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_data ? 'schemaVersion' THEN p_data
+    ELSE jsonb_build_object(
+      'schemaVersion', 2,
+      'overallSeverity', CASE
+        WHEN p_data->>'overallSeverity' IN ('none', 'mild', 'moderate', 'severe') THEN p_data->>'overallSeverity'
+        ELSE COALESCE(p_severity, 'none')
+      END,
+      'summary', COALESCE(p_data->>'summary', ''),
+      'steps', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'stepNumber', COALESCE((s.step->>'stepNumber')::INTEGER, (s.step->>'step')::INTEGER, s.position::INTEGER),
+            'title', COALESCE(NULLIF(s.step->>'title', ''), 'Step ' || s.position),
+            'executionPlan', COALESCE(
+              NULLIF(s.step->>'executionPlan', ''),
+              NULLIF(concat_ws(E'\n',
+                NULLIF(s.step->>'description', ''),
+                CASE WHEN jsonb_typeof(s.step->'activities') = 'array' AND jsonb_array_length(s.step->'activities') > 0
+                  THEN 'Activities: ' || (SELECT string_agg(a, '; ') FROM jsonb_array_elements_text(s.step->'activities') AS a)
+                END,
+                'Duration: ' || NULLIF(s.step->>'duration', '')
+              ), ''),
+              'No plan recorded'
+            ),
+            'resources', CASE WHEN jsonb_typeof(s.step->'resources') = 'array' THEN COALESCE((
+              SELECT jsonb_agg(
+                CASE WHEN jsonb_typeof(r.value) = 'string' THEN jsonb_build_object(
+                  'resourceId', c.id,
+                  'name', COALESCE(c.name, r.value #>> '{}'),
+                  'kind', c.kind,
+                  'cost', c.cost,
+                  'url', c.url,
+                  'use', ''
+                ) ELSE r.value END
+                ORDER BY r.position
+              )
+              FROM jsonb_array_elements(s.step->'resources') WITH ORDINALITY AS r(value, position)
+              LEFT JOIN resources c
+                ON jsonb_typeof(r.value) = 'string' AND lower(c.name) = lower(trim(r.value #>> '{}'))
+            ), '[]'::JSONB) ELSE '[]'::JSONB END
+          )
+          ORDER BY s.position
+        )
+        FROM jsonb_array_elements(COALESCE(p_data->'steps', '[]'::JSONB)) WITH ORDINALITY AS s(step, position)
+      ), '[]'::JSONB)
+    )
+  END;
+$$;
+
+UPDATE public.remediation_roadmaps r
+SET roadmap_data = public.upgrade_roadmap_data(r.roadmap_data, dt.overall_severity::TEXT)
+FROM public.diagnostic_tests dt
+WHERE dt.id = r.test_id
+AND NOT r.roadmap_data ? 'schemaVersion';
+
+UPDATE public.roadmap_revisions rv
+SET roadmap_data = public.upgrade_roadmap_data(rv.roadmap_data, dt.overall_severity::TEXT)
+FROM public.remediation_roadmaps r
+JOIN public.diagnostic_tests dt ON dt.id = r.test_id
+WHERE r.id = rv.roadmap_id
+AND NOT rv.roadmap_data ? 'schemaVersion';
+
+DROP FUNCTION public.upgrade_roadmap_data(JSONB, TEXT);
@@ -0,0 +1,16 @@
+-- The item seed decides which items a test is given, so the browser neither
+-- chooses nor reads it. Seeds move to test_item_seeds, which only the edge
+-- functions read (with the service role); RLS is enabled with no policies.
+CREATE TABLE public.test_item_seeds (
+  test_id UUID PRIMARY KEY REFERENCES public.diagnostic_tests(id) ON DELETE CASCADE,
+  seed BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.test_item_seeds ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.test_item_seeds (test_id, seed)
+  SELECT id, item_seed FROM public.diagnostic_tests WHERE item_seed IS NOT NULL;
+
+ALTER TABLE public.diagnostic_tests
+  DROP COLUMN item_seed;
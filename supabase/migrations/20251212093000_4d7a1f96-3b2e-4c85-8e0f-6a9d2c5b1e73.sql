@@ -0,0 +1,54 @@
+-- Question sets are charged per item asked of the model rather than per
+-- request, so consume_generation_quota counts several generations at once.
+-- Confirmatory limits are now counted in items; teachers with their own limit
+-- keep it at the same number of tests.
+UPDATE public.generation_quotas
+  SET daily_limit = daily_limit * 15
+  WHERE kind = 'confirmatory-test';
+
+DROP FUNCTION public.consume_generation_quota(UUID, TEXT, INTEGER);
+
+-- Counts p_amount generations against the teacher's quota for today, unless
+-- they would take it over the limit. Checking and counting in one statement
+-- keeps concurrent requests from overshooting the limit.
+CREATE FUNCTION public.consume_generation_quota(p_teacher_id UUID, p_kind TEXT, p_default_limit INTEGER, p_amount INTEGER DEFAULT 1)
+RETURNS TABLE (allowed BOOLEAN, used INTEGER, daily_limit INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+  v_used INTEGER;
+BEGIN
+  IF p_amount < 1 THEN
+    RAISE EXCEPTION 'p_amount must be positive';
+  END IF;
+
+  SELECT q.daily_limit INTO v_limit
+  FROM generation_quotas q
+  WHERE q.teacher_id = p_teacher_id AND q.kind = p_kind;
+  v_limit := COALESCE(v_limit, p_default_limit);
+
+  IF p_amount <= v_limit THEN
+    INSERT INTO generation_usage AS u (teacher_id, kind, usage_date, count)
+    VALUES (p_teacher_id, p_kind, (NOW() AT TIME ZONE 'utc')::date, p_amount)
+    ON CONFLICT (teacher_id, kind, usage_date)
+    DO UPDATE SET count = u.count + p_amount
+    WHERE u.count + p_amount <= v_limit
+    RETURNING u.count INTO v_used;
+  END IF;
+
+  IF v_used IS NULL THEN
+    SELECT u.count INTO v_used
+    FROM generation_usage u
+    WHERE u.teacher_id = p_teacher_id AND u.kind = p_kind AND u.usage_date = (NOW() AT TIME ZONE 'utc')::date;
+    RETURN QUERY SELECT FALSE, COALESCE(v_used, 0), v_limit;
+  ELSE
+    RETURN QUERY SELECT TRUE, v_used, v_limit;
+  END IF;
+END;
+$$;
+
+-- Only the edge functions (service role) may count usage
+REVOKE EXECUTE ON FUNCTION public.consume_generation_quota(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
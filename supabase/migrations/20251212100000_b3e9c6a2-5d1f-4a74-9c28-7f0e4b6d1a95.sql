@@ -0,0 +1,89 @@
+-- Work charged under a key (a test's roadmap, keyed by the test id) counts
+-- against the quota only the first time, so resuming a dropped stream is not
+-- charged again. Only the edge functions read this table (with the service
+-- role); RLS is enabled with no policies.
+CREATE TABLE public.generation_charges (
+  kind TEXT NOT NULL,
+  charge_key TEXT NOT NULL,
+  teacher_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (kind, charge_key)
+);
+
+ALTER TABLE public.generation_charges ENABLE ROW LEVEL SECURITY;
+
+DROP FUNCTION public.consume_generation_quota(UUID, TEXT, INTEGER, INTEGER);
+
+-- Counts p_amount generations against the teacher's quota for today, unless
+-- they would take it over the limit or p_charge_key was charged before.
+-- Checking and counting in one statement keeps concurrent requests from
+-- overshooting the limit; claiming the key first keeps them from charging it
+-- twice.
+CREATE FUNCTION public.consume_generation_quota(
+  p_teacher_id UUID,
+  p_kind TEXT,
+  p_default_limit INTEGER,
+  p_amount INTEGER DEFAULT 1,
+  p_charge_key TEXT DEFAULT NULL
+)
+RETURNS TABLE (allowed BOOLEAN, used INTEGER, daily_limit INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+  v_used INTEGER;
+  v_claimed BOOLEAN := FALSE;
+BEGIN
+  IF p_amount < 1 THEN
+    RAISE EXCEPTION 'p_amount must be positive';
+  END IF;
+
+  SELECT q.daily_limit INTO v_limit
+  FROM generation_quotas q
+  WHERE q.teacher_id = p_teacher_id AND q.kind = p_kind;
+  v_limit := COALESCE(v_limit, p_default_limit);
+
+  IF p_charge_key IS NOT NULL THEN
+    INSERT INTO generation_charges (kind, charge_key, teacher_id)
+    VALUES (p_kind, p_charge_key, p_teacher_id)
+    ON CONFLICT (kind, charge_key) DO NOTHING
+    RETURNING TRUE INTO v_claimed;
+
+    IF v_claimed IS NULL THEN
+      SELECT u.count INTO v_used
+      FROM generation_usage u
+      WHERE u.teacher_id = p_teacher_id AND u.kind = p_kind AND u.usage_date = (NOW() AT TIME ZONE 'utc')::date;
+      RETURN QUERY SELECT TRUE, COALESCE(v_used, 0), v_limit;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF p_amount <= v_limit THEN
+    INSERT INTO generation_usage AS u (teacher_id, kind, usage_date, count)
+    VALUES (p_teacher_id, p_kind, (NOW() AT TIME ZONE 'utc')::date, p_amount)
+    ON CONFLICT (teacher_id, kind, usage_date)
+    DO UPDATE SET count = u.count + p_amount
+    WHERE u.count + p_amount <= v_limit
+    RETURNING u.count INTO v_used;
+  END IF;
+
+  IF v_used IS NULL THEN
+    -- A key that could not be charged stays unclaimed
+    IF p_charge_key IS NOT NULL THEN
+      DELETE FROM generation_charges c WHERE c.kind = p_kind AND c.charge_key = p_charge_key;
+    END IF;
+
+    SELECT u.count INTO v_used
+    FROM generation_usage u
+    WHERE u.teacher_id = p_teacher_id AND u.kind = p_kind AND u.usage_date = (NOW() AT TIME ZONE 'utc')::date;
+    RETURN QUERY SELECT FALSE, COALESCE(v_used, 0), v_limit;
+  ELSE
+    RETURN QUERY SELECT TRUE, v_used, v_limit;
+  END IF;
+END;
+$$;
+
+-- Only the edge functions (service role) may count usage
+REVOKE EXECUTE ON FUNCTION public.consume_generation_quota(UUID, TEXT, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
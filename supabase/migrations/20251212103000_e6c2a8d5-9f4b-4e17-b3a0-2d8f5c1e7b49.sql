@@ -0,0 +1,16 @@
+-- Provenance records hold the raw model output and input of a test's items,
+-- answer keys included, so they are readable only once the test is completed
+-- and its answers are in
+DROP POLICY "Teachers can view provenance for their students' tests" ON public.generation_provenance;
+
+CREATE POLICY "Teachers can view provenance for their students' completed tests"
+  ON public.generation_provenance FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.diagnostic_tests dt
+      JOIN public.students s ON dt.student_id = s.id
+      WHERE dt.id = generation_provenance.test_id
+      AND dt.status = 'completed'
+      AND s.teacher_id = auth.uid()
+    )
+  );
@@ -0,0 +1,25 @@
+-- The raw output behind pooled items holds the answer keys of items other
+-- tests are still given, so pool records are no longer readable from the
+-- browser. Teachers see them through pooled_item_provenance instead, without
+-- the raw output, and only for items their students answered on a completed
+-- test.
+DROP POLICY "Teachers can view provenance of pooled items" ON public.generation_provenance;
+
+-- Runs with the owner's rights to read past the table's policies, so the
+-- teacher is checked here
+CREATE VIEW public.pooled_item_provenance AS
+  SELECT gp.id, gp.kind, gp.function_name, gp.function_version, gp.source, gp.provider, gp.model,
+    gp.temperature, gp.prompt_name, gp.prompt_version, gp.input, gp.input_hash, gp.created_at
+  FROM public.generation_provenance gp
+  WHERE gp.test_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.test_responses tr
+    JOIN public.diagnostic_tests dt ON tr.test_id = dt.id
+    JOIN public.students s ON dt.student_id = s.id
+    WHERE tr.provenance_id = gp.id
+    AND dt.status = 'completed'
+    AND s.teacher_id = auth.uid()
+  );
+
+REVOKE ALL ON public.pooled_item_provenance FROM PUBLIC, anon;
+GRANT SELECT ON public.pooled_item_provenance TO authenticated;
@@ -0,0 +1,57 @@
+-- A test's provenance, answer keys included, is readable once the test is
+-- completed, so the browser may no longer set a test's status. Tests are
+-- created in progress and completed by complete_diagnostic_test once their
+-- roadmap is saved; a completed test takes no more answers.
+CREATE OR REPLACE FUNCTION public.guard_test_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Browser requests run as anon or authenticated; the edge functions (service
+  -- role) and SECURITY DEFINER functions run as other roles
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' AND (NEW.status IS DISTINCT FROM 'in_progress' OR NEW.completed_at IS NOT NULL) THEN
+      RAISE EXCEPTION 'Tests are created in progress' USING ERRCODE = '42501';
+    END IF;
+    IF TG_OP = 'UPDATE' AND (NEW.status IS DISTINCT FROM OLD.status OR NEW.completed_at IS DISTINCT FROM OLD.completed_at) THEN
+      RAISE EXCEPTION 'A test is completed by complete_diagnostic_test' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_test_status
+  BEFORE INSERT OR UPDATE ON public.diagnostic_tests
+  FOR EACH ROW EXECUTE FUNCTION public.guard_test_status();
+
+-- Completes one of the teacher's tests in progress with its overall severity.
+-- Only a test whose roadmap is saved can be completed.
+CREATE OR REPLACE FUNCTION public.complete_diagnostic_test(p_test_id UUID, p_overall_severity severity_level)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM diagnostic_tests dt
+    JOIN students s ON dt.student_id = s.id
+    WHERE dt.id = p_test_id
+    AND s.teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Test not found' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM remediation_roadmaps r WHERE r.test_id = p_test_id) THEN
+    RAISE EXCEPTION 'The test has no roadmap yet' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE diagnostic_tests
+  SET status = 'completed', completed_at = NOW(), overall_severity = p_overall_severity
+  WHERE id = p_test_id AND status = 'in_progress';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_diagnostic_test(UUID, severity_level) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complete_diagnostic_test(UUID, severity_level) TO authenticated;
@@ -0,0 +1,20 @@
+-- Each pooled item keeps the part of the model output it came from, so a
+-- teacher can see how an item their student answered was generated without
+-- being shown the other items of the same output. Items pooled before this
+-- have none.
+ALTER TABLE public.item_pool ADD COLUMN raw_output TEXT;
+
+-- Runs with the owner's rights to read past the tables' policies, so the
+-- teacher and the test's status are checked here
+CREATE VIEW public.pooled_item_outputs AS
+  SELECT ik.test_id, ik.question_number, ip.provenance_id, ip.raw_output
+  FROM public.item_keys ik
+  JOIN public.item_pool ip ON ik.pool_item_id = ip.id
+  JOIN public.diagnostic_tests dt ON ik.test_id = dt.id
+  JOIN public.students s ON dt.student_id = s.id
+  WHERE ip.raw_output IS NOT NULL
+  AND dt.status = 'completed'
+  AND s.teacher_id = auth.uid();
+
+REVOKE ALL ON public.pooled_item_outputs FROM PUBLIC, anon;
+GRANT SELECT ON public.pooled_item_outputs TO authenticated;
@@ -0,0 +1,29 @@
+-- Generated roadmaps are saved by generate-roadmap once it has validated them
+-- and resolved their resources, so the browser no longer inserts them
+DROP POLICY "Teachers can create roadmaps for their students' tests" ON public.remediation_roadmaps;
+
+-- The service role has no auth.uid(), so the generated version is credited
+-- to the student's teacher
+CREATE OR REPLACE FUNCTION public.record_generated_roadmap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO roadmap_revisions (roadmap_id, version, author_id, source, roadmap_data, provenance_id)
+  VALUES (
+    NEW.id,
+    NEW.version,
+    COALESCE(auth.uid(), (
+      SELECT s.teacher_id FROM diagnostic_tests dt
+      JOIN students s ON dt.student_id = s.id
+      WHERE dt.id = NEW.test_id
+    )),
+    'generated',
+    NEW.roadmap_data,
+    NEW.provenance_id
+  );
+  RETURN NEW;
+END;
+$$;
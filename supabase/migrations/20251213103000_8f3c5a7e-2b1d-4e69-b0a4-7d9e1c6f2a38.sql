@@ -0,0 +1,102 @@
+-- Items asked of the model are charged before it is called, so that a
+-- teacher over the limit is turned away first. When the model fails and the
+-- items come from the local generators instead, the charge is given back with
+-- refund_generation_quota. consume_generation_quota now says whether it
+-- counted anything, as a key charged before is not counted again and must
+-- not be refunded.
+DROP FUNCTION public.consume_generation_quota(UUID, TEXT, INTEGER, INTEGER, TEXT);
+
+CREATE FUNCTION public.consume_generation_quota(
+  p_teacher_id UUID,
+  p_kind TEXT,
+  p_default_limit INTEGER,
+  p_amount INTEGER DEFAULT 1,
+  p_charge_key TEXT DEFAULT NULL
+)
+RETURNS TABLE (allowed BOOLEAN, charged BOOLEAN, used INTEGER, daily_limit INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+  v_used INTEGER;
+  v_claimed BOOLEAN := FALSE;
+BEGIN
+  IF p_amount < 1 THEN
+    RAISE EXCEPTION 'p_amount must be positive';
+  END IF;
+
+  SELECT q.daily_limit INTO v_limit
+  FROM generation_quotas q
+  WHERE q.teacher_id = p_teacher_id AND q.kind = p_kind;
+  v_limit := COALESCE(v_limit, p_default_limit);
+
+  IF p_charge_key IS NOT NULL THEN
+    INSERT INTO generation_charges (kind, charge_key, teacher_id)
+    VALUES (p_kind, p_charge_key, p_teacher_id)
+    ON CONFLICT (kind, charge_key) DO NOTHING
+    RETURNING TRUE INTO v_claimed;
+
+    IF v_claimed IS NULL THEN
+      SELECT u.count INTO v_used
+      FROM generation_usage u
+      WHERE u.teacher_id = p_teacher_id AND u.kind = p_kind AND u.usage_date = (NOW() AT TIME ZONE 'utc')::date;
+      RETURN QUERY SELECT TRUE, FALSE, COALESCE(v_used, 0), v_limit;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF p_amount <= v_limit THEN
+    INSERT INTO generation_usage AS u (teacher_id, kind, usage_date, count)
+    VALUES (p_teacher_id, p_kind, (NOW() AT TIME ZONE 'utc')::date, p_amount)
+    ON CONFLICT (teacher_id, kind, usage_date)
+    DO UPDATE SET count = u.count + p_amount
+    WHERE u.count + p_amount <= v_limit
+    RETURNING u.count INTO v_used;
+  END IF;
+
+  IF v_used IS NULL THEN
+    -- A key that could not be charged stays unclaimed
+    IF p_charge_key IS NOT NULL THEN
+      DELETE FROM generation_charges c WHERE c.kind = p_kind AND c.charge_key = p_charge_key;
+    END IF;
+
+    SELECT u.count INTO v_used
+    FROM generation_usage u
+    WHERE u.teacher_id = p_teacher_id AND u.kind = p_kind AND u.usage_date = (NOW() AT TIME ZONE 'utc')::date;
+    RETURN QUERY SELECT FALSE, FALSE, COALESCE(v_used, 0), v_limit;
+  ELSE
+    RETURN QUERY SELECT TRUE, TRUE, v_used, v_limit;
+  END IF;
+END;
+$$;
+
+-- Gives back p_amount generations charged today, and unclaims p_charge_key so
+-- that a retry is charged again
+CREATE FUNCTION public.refund_generation_quota(
+  p_teacher_id UUID,
+  p_kind TEXT,
+  p_amount INTEGER DEFAULT 1,
+  p_charge_key TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE generation_usage u
+  SET count = GREATEST(u.count - p_amount, 0)
+  WHERE u.teacher_id = p_teacher_id AND u.kind = p_kind AND u.usage_date = (NOW() AT TIME ZONE 'utc')::date;
+
+  IF p_charge_key IS NOT NULL THEN
+    DELETE FROM generation_charges c
+    WHERE c.kind = p_kind AND c.charge_key = p_charge_key AND c.teacher_id = p_teacher_id;
+  END IF;
+END;
+$$;
+
+-- Only the edge functions (service role) may count usage
+REVOKE EXECUTE ON FUNCTION public.consume_generation_quota(UUID, TEXT, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_generation_quota(UUID, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
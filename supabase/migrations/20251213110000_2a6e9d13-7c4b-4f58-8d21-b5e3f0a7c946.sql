@@ -0,0 +1,5 @@
+-- Hand edits are saved by edit-roadmap, which validates the roadmap, resolves
+-- its resources against the catalog and works out the diff itself. Teachers
+-- could otherwise save any roadmap_data and diff by calling the function
+-- directly, so only the edge functions (service role) may call it now.
+REVOKE EXECUTE ON FUNCTION public.save_roadmap_revision(UUID, INTEGER, UUID, TEXT, JSONB, JSONB, TEXT, INTEGER[], UUID) FROM authenticated;